@@ -1,17 +1,30 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { createAPIClient, APIContextType } from '../../lib/api-client';
-import { usePartsSearch } from '@partsy/ui';
-import type { PartDTO } from '@partsy/sdk';
-import type { PartsAPIClient } from '@partsy/sdk';
+import { getAPIClient, APIContextType } from '../../lib/api-client';
+import { queryCache } from '../../lib/query-cache';
+import { PartsQueryProvider, usePart, usePartsSearch, usePartSuggestions } from '@partsy/ui';
+import { APIError, NetworkError, RateLimitedError, TimeoutError } from '@partsy/sdk';
+import type { PartSortField, PartSuggestion } from '@partsy/sdk';
+
+function HighlightedText({ text, highlights }: Pick<PartSuggestion, 'text' | 'highlights'>) {
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(({ start, end }) => {
+    pieces.push(text.slice(position, start));
+    pieces.push(<mark key={start} className="bg-yellow-200 text-gray-900">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  pieces.push(text.slice(position));
+  return <>{pieces}</>;
+}
 
 export default function DemoPage() {
-  const [apiContext, setApiContext] = useState<ReturnType<typeof createAPIClient> | null>(null);
+  const [apiContext, setApiContext] = useState<ReturnType<typeof getAPIClient> | null>(null);
 
   // Initialize the API client on the client side only
   useEffect(() => {
-    const context = createAPIClient();
+    const context = getAPIClient();
     setApiContext(context);
   }, []);
 
@@ -32,33 +45,84 @@ export default function DemoPage() {
     );
   }
 
-  return <DemoContent {...apiContext} />;
+  return (
+    <PartsQueryProvider client={apiContext.client} cache={queryCache}>
+      <DemoContent {...apiContext} />
+    </PartsQueryProvider>
+  );
+}
+
+function describeSearchError(error: Error): string {
+  if (error instanceof RateLimitedError) {
+    const seconds = error.retryAfterMs === undefined ? undefined : Math.ceil(error.retryAfterMs / 1000);
+    return seconds === undefined ? 'Too many searches. Please wait a moment.' : `Too many searches. Try again in ${seconds}s.`;
+  }
+  if (error instanceof TimeoutError || error instanceof NetworkError) {
+    return 'The parts service could not be reached. Check your connection and try again.';
+  }
+  return error.message;
 }
 
 function DemoContent({ client, isUsingMockData }: APIContextType) {
   const {
     results,
-    loading,
-    error,
+    facets,
+    isFetching,
+    isLoading,
+    errorCause,
     searchCriteria,
     updateCriteria,
-    search,
+    setSort,
+    refetch,
     clearResults
   } = usePartsSearch({
-    client: client as PartsAPIClient, // Type assertion - both clients implement the same public interface
-    initialCriteria: { limit: 10, page: 1 }
+    client,
+    initialCriteria: { limit: 10, page: 1, includeFacets: true },
+    autoSearch: true
   });
 
-  const [selectedPart, setSelectedPart] = useState<PartDTO | null>(null);
+  // Parts shown in the results are already cached, so the details render without a request
+  const [selectedPartId, setSelectedPartId] = useState<string | null>(null);
+  const { part: selectedPart } = usePart(selectedPartId);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const { suggestions } = usePartSuggestions({ client, query: searchCriteria.name ?? '', limit: 6 });
+
+  const handleSuggestionSelect = (suggestion: PartSuggestion) => {
+    setShowSuggestions(false);
+    if (suggestion.field === 'category') {
+      updateCriteria({ category: suggestion.text, name: '' });
+    } else if (suggestion.field === 'partNumber') {
+      updateCriteria({ partNumber: suggestion.text, name: '' });
+    } else {
+      updateCriteria({ name: suggestion.text });
+    }
+  };
+
+  const categoryOptions = facets?.categories ?? [];
+  const selectedCategoryMissing = Boolean(searchCriteria.category)
+    && !categoryOptions.some(option => option.value === searchCriteria.category);
 
-  const handleSearch = async () => {
-    await search();
+  const handleRefresh = async () => {
+    await refetch();
   };
 
   const handleFilterChange = (field: string, value: string | number | boolean) => {
     updateCriteria({ [field]: value });
   };
 
+  const handleSortChange = (value: string) => {
+    if (!value) {
+      setSort([]);
+      return;
+    }
+    const [field, direction] = value.split(':') as [PartSortField, 'asc' | 'desc'];
+    setSort([{ field, direction }]);
+  };
+
+  const currentSort = searchCriteria.sort?.[0]
+    ? `${searchCriteria.sort[0].field}:${searchCriteria.sort[0].direction ?? 'asc'}`
+    : '';
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -80,18 +144,46 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
 
         {/* Search Controls */}
         <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Part Name
               </label>
-              <input
-                type="text"
-                value={searchCriteria.name || ''}
-                onChange={(e) => handleFilterChange('name', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
-                placeholder="Search by name..."
-              />
+              <div className="relative">
+                <input
+                  type="text"
+                  value={searchCriteria.name || ''}
+                  onChange={(e) => {
+                    handleFilterChange('name', e.target.value);
+                    setShowSuggestions(true);
+                  }}
+                  onFocus={() => setShowSuggestions(true)}
+                  onBlur={() => setShowSuggestions(false)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                  placeholder="Search by name..."
+                  autoComplete="off"
+                />
+                {showSuggestions && suggestions.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg">
+                    {suggestions.map((suggestion) => (
+                      <li
+                        key={`${suggestion.field}:${suggestion.text}`}
+                        // mousedown fires before the input's blur hides the list
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          handleSuggestionSelect(suggestion);
+                        }}
+                        className="px-3 py-2 cursor-pointer hover:bg-blue-50 flex justify-between text-sm text-gray-900"
+                      >
+                        <span>
+                          <HighlightedText text={suggestion.text} highlights={suggestion.highlights} />
+                        </span>
+                        <span className="text-xs text-gray-400">{suggestion.field}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
             
             <div>
@@ -104,11 +196,14 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
               >
                 <option value="">All Categories</option>
-                <option value="Engine">Engine</option>
-                <option value="Brakes">Brakes</option>
-                <option value="Tires">Tires</option>
-                <option value="Filters">Filters</option>
-                <option value="Electrical">Electrical</option>
+                {selectedCategoryMissing && (
+                  <option value={searchCriteria.category}>{searchCriteria.category}</option>
+                )}
+                {categoryOptions.map(({ value, count }) => (
+                  <option key={value} value={value}>
+                    {value} ({count})
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -123,19 +218,38 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
               >
                 <option value="">All Status</option>
                 <option value="ACTIVE">Active</option>
-                <option value="LOW_STOCK">Low Stock</option>
-                <option value="OUT_OF_STOCK">Out of Stock</option>
+                <option value="INACTIVE">Inactive</option>
+                <option value="DISCONTINUED">Discontinued</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sort By
+              </label>
+              <select
+                value={currentSort}
+                onChange={(e) => handleSortChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+              >
+                <option value="">Relevance</option>
+                <option value="name:asc">Name (A-Z)</option>
+                <option value="name:desc">Name (Z-A)</option>
+                <option value="price:asc">Price (Low to High)</option>
+                <option value="price:desc">Price (High to Low)</option>
+                <option value="quantity:desc">Stock (Most First)</option>
+                <option value="updatedAt:desc">Recently Updated</option>
               </select>
             </div>
           </div>
 
           <div className="flex gap-4">
             <button
-              onClick={handleSearch}
-              disabled={loading}
+              onClick={handleRefresh}
+              disabled={isLoading}
               className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
             >
-              {loading ? (
+              {isFetching ? (
                 <>
                   <svg className="animate-spin -ml-1 mr-3 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -144,7 +258,7 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
                   Searching...
                 </>
               ) : (
-                'Search Parts'
+                'Refresh'
               )}
             </button>
             
@@ -154,11 +268,21 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
             >
               Clear Results
             </button>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={searchCriteria.fuzzy ?? false}
+                onChange={(e) => handleFilterChange('fuzzy', e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Typo tolerant
+            </label>
           </div>
         </div>
 
         {/* Error Display */}
-        {error && (
+        {errorCause && (
           <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
             <div className="flex">
               <div className="flex-shrink-0">
@@ -169,7 +293,10 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
               <div className="ml-3">
                 <h3 className="text-sm font-medium text-red-800">Search Error</h3>
                 <div className="mt-2 text-sm text-red-700">
-                  <p>{error}</p>
+                  <p>{describeSearchError(errorCause)}</p>
+                  {errorCause instanceof APIError && errorCause.requestId && (
+                    <p className="mt-1 text-xs text-red-500">Request ID: {errorCause.requestId}</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -182,6 +309,7 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
             <div className="px-6 py-4 border-b border-gray-200">
               <h2 className="text-lg font-semibold text-gray-900">
                 Search Results ({results.total} parts found)
+                {isFetching && <span className="ml-2 text-sm font-normal text-gray-400">Updating…</span>}
               </h2>
             </div>
             
@@ -194,13 +322,13 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
                       ? 'border-blue-500 ring-2 ring-blue-200'
                       : 'border-gray-200 hover:border-gray-300'
                   }`}
-                  onClick={() => setSelectedPart(part)}
+                  onClick={() => setSelectedPartId(part.id)}
                 >
                   <div className="flex justify-between items-start mb-2">
                     <h3 className="font-semibold text-gray-900">{part.name}</h3>
                     <span className={`px-2 py-1 rounded text-xs font-medium ${
                       part.status === 'ACTIVE' ? 'bg-green-100 text-green-800' :
-                      part.status === 'LOW_STOCK' ? 'bg-yellow-100 text-yellow-800' :
+                      part.status === 'INACTIVE' ? 'bg-yellow-100 text-yellow-800' :
                       'bg-red-100 text-red-800'
                     }`}>
                       {part.status}
@@ -240,14 +368,14 @@ function DemoContent({ client, isUsingMockData }: APIContextType) {
                 <div className="flex gap-2">
                   <button
                     onClick={() => handleFilterChange('page', Math.max(1, (searchCriteria.page || 1) - 1))}
-                    disabled={loading || (searchCriteria.page || 1) <= 1}
+                    disabled={isFetching || (searchCriteria.page || 1) <= 1}
                     className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                   >
                     Previous
                   </button>
                   <button
                     onClick={() => handleFilterChange('page', Math.min(results.totalPages, (searchCriteria.page || 1) + 1))}
-                    disabled={loading || (searchCriteria.page || 1) >= results.totalPages}
+                    disabled={isFetching || (searchCriteria.page || 1) >= results.totalPages}
                     className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                   >
                     Next
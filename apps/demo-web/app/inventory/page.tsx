@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { getAPIClient, APIContextType } from '../../lib/api-client';
+import { queryCache } from '../../lib/query-cache';
+import { PartsQueryProvider, useCreatePart, useDeletePart, usePartsSearch, useUpdatePart } from '@partsy/ui';
+import { APIError, ConflictError } from '@partsy/sdk';
+import type { CreatePartDTO, PartDTO } from '@partsy/sdk';
+
+export default function InventoryPage() {
+  const [apiContext, setApiContext] = useState<ReturnType<typeof getAPIClient> | null>(null);
+
+  // Initialize the API client on the client side only
+  useEffect(() => {
+    setApiContext(getAPIClient());
+  }, []);
+
+  if (!apiContext) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <PartsQueryProvider client={apiContext.client} cache={queryCache}>
+      <InventoryContent {...apiContext} />
+    </PartsQueryProvider>
+  );
+}
+
+function describeMutationError(error: Error): string {
+  if (error instanceof ConflictError) {
+    return 'A part with this part number already exists.';
+  }
+  if (error instanceof APIError && error.violations.length > 0) {
+    return error.violations.map(({ field, message }) => `${field}: ${message}`).join('; ');
+  }
+  return error.message;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900';
+
+function InventoryContent({ client, isUsingMockData }: APIContextType) {
+  const { results, isLoading, isFetching, errorCause, searchCriteria, updateCriteria } = usePartsSearch({
+    client,
+    initialCriteria: { limit: 20, page: 1, sort: [{ field: 'updatedAt', direction: 'desc' }] },
+    autoSearch: true
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Inventory Admin</h1>
+          <p className="mt-2 text-gray-600">
+            Changes show immediately and are rolled back if the API refuses them.
+            {isUsingMockData && (
+              <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                🧪 Using Mock Data
+              </span>
+            )}
+          </p>
+        </div>
+
+        <NewPartForm />
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Parts {results && `(${results.total})`}
+              {isFetching && <span className="ml-2 text-sm font-normal text-gray-400">Updating…</span>}
+            </h2>
+            <input
+              type="text"
+              value={searchCriteria.name || ''}
+              onChange={(e) => updateCriteria({ name: e.target.value, page: 1 })}
+              className={`${inputClassName} max-w-xs`}
+              placeholder="Filter by name..."
+            />
+          </div>
+
+          {errorCause && (
+            <p className="px-6 py-4 text-sm text-red-700 bg-red-50">{errorCause.message}</p>
+          )}
+          {isLoading && <p className="px-6 py-4 text-gray-600">Loading parts...</p>}
+
+          {results && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="px-6 py-3">Part</th>
+                  <th className="px-6 py-3">Category</th>
+                  <th className="px-6 py-3">Price</th>
+                  <th className="px-6 py-3">Stock</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {results.parts.map(part => (
+                  <PartRow key={part.id} part={part} />
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PartRow({ part }: { part: PartDTO }) {
+  const { updatePart, isPending: isSaving, errorCause: updateError } = useUpdatePart();
+  const { deletePart, isPending: isDeleting, errorCause: deleteError } = useDeletePart();
+  const [price, setPrice] = useState(String(part.price));
+  const [quantity, setQuantity] = useState(String(part.quantity));
+
+  // Follow the cached part, which changes on save, on rollback and on refetch
+  useEffect(() => {
+    setPrice(String(part.price));
+    setQuantity(String(part.quantity));
+  }, [part.price, part.quantity]);
+
+  const isDirty = Number(price) !== part.price || Number(quantity) !== part.quantity;
+  const error = updateError ?? deleteError;
+
+  const handleDelete = async () => {
+    if (window.confirm(`Delete ${part.name}?`)) {
+      await deletePart(part.id);
+    }
+  };
+
+  return (
+    <tr className={isDeleting ? 'opacity-50' : undefined}>
+      <td className="px-6 py-4">
+        <div className="font-medium text-gray-900">{part.name}</div>
+        <div className="text-sm text-gray-500">{part.partNumber}</div>
+        {error && <div className="mt-1 text-xs text-red-600">{describeMutationError(error)}</div>}
+      </td>
+      <td className="px-6 py-4 text-sm text-gray-600">{part.category}</td>
+      <td className="px-6 py-4">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          className={`${inputClassName} w-28`}
+        />
+      </td>
+      <td className="px-6 py-4">
+        <input
+          type="number"
+          min="0"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className={`${inputClassName} w-24`}
+        />
+      </td>
+      <td className="px-6 py-4 text-right whitespace-nowrap">
+        <button
+          onClick={() => updatePart(part.id, { price: Number(price), quantity: Number(quantity) })}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={isDeleting}
+          className="ml-2 px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          Delete
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+const emptyPart = { partNumber: '', name: '', category: '', price: '', quantity: '' };
+
+function NewPartForm() {
+  const { createPart, isPending, errorCause, reset } = useCreatePart();
+  const [form, setForm] = useState(emptyPart);
+
+  const handleChange = (field: keyof typeof emptyPart, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    reset();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const dto: CreatePartDTO = {
+      partNumber: form.partNumber,
+      name: form.name,
+      category: form.category,
+      price: Number(form.price),
+      quantity: Number(form.quantity)
+    };
+    if (await createPart(dto)) {
+      setForm(emptyPart);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">New Part</h2>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {([
+          ['partNumber', 'Part Number', 'text'],
+          ['name', 'Name', 'text'],
+          ['category', 'Category', 'text'],
+          ['price', 'Price', 'number'],
+          ['quantity', 'Quantity', 'number']
+        ] as const).map(([field, label, type]) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type={type}
+              min={type === 'number' ? '0' : undefined}
+              step={field === 'price' ? '0.01' : undefined}
+              required
+              value={form[field]}
+              onChange={(e) => handleChange(field, e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? 'Creating...' : 'Create Part'}
+        </button>
+        {errorCause && <p className="text-sm text-red-600">{describeMutationError(errorCause)}</p>}
+      </div>
+    </form>
+  );
+}
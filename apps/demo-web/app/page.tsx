@@ -31,6 +31,12 @@ const demoFeatures: DemoFeature[] = [
     href: '/demo',
     icon: '🔍'
   },
+  {
+    title: 'Inventory Admin',
+    description: 'Create, edit and delete parts with optimistic updates that roll back when the API refuses a change',
+    href: '/inventory',
+    icon: '📦'
+  },
   {
     title: 'Real API Integration',
     description: 'Switch between mock data and real API with comprehensive error handling',
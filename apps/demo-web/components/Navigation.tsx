@@ -35,6 +35,16 @@ export function Navigation() {
               >
                 Interactive Demo
               </Link>
+              <Link 
+                href="/inventory" 
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  pathname === '/inventory' 
+                    ? 'bg-blue-100 text-blue-700' 
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                Inventory Admin
+              </Link>
             </div>
           </div>
           <div className="flex items-center space-x-4">
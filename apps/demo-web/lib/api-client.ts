@@ -1,28 +1,27 @@
 'use client';
 
 import { PartsAPIClientFactory } from '@partsy/sdk';
-import type { PartDTO, CreatePartDTO, SearchPartsDTO, SearchPartsResponseDTO } from '@partsy/sdk';
-
-// Interface for the public API methods that both clients implement
-export interface PartsAPIClientInterface {
-  createPart(dto: CreatePartDTO): Promise<PartDTO>;
-  searchParts(dto: SearchPartsDTO): Promise<SearchPartsResponseDTO>;
-  getPartById(id: string): Promise<PartDTO>;
-  updatePart(id: string, dto: Partial<CreatePartDTO>): Promise<PartDTO>;
-  deletePart(id: string): Promise<void>;
-}
+import type { PartsAPI } from '@partsy/sdk';
 
 export interface APIContextType {
-  client: PartsAPIClientInterface;
+  client: PartsAPI;
   isUsingMockData: boolean;
 }
 
-export function createAPIClient(): APIContextType | null {
+// One client for the whole app, like queryCache: the mock client keeps its data in
+// memory, so a client per page would not have the parts the shared cache shows
+let apiContext: APIContextType | undefined;
+
+export function getAPIClient(): APIContextType | null {
   // Only create the client on the client side to avoid SSR issues
   if (typeof window === 'undefined') {
     return null;
   }
-  
+  apiContext ??= createAPIClient();
+  return apiContext;
+}
+
+function createAPIClient(): APIContextType {
   const useMockData = process.env.NEXT_PUBLIC_USE_MOCK_DATA === 'true';
   
   if (useMockData) {
@@ -0,0 +1,5 @@
+import { PartsQueryCache } from '@partsy/ui';
+
+// Module scope, so cached parts survive moving between pages, and the demo and
+// inventory pages see each other's changes; they share one client too, see getAPIClient
+export const queryCache = new PartsQueryCache({ staleTime: 60_000 });
@@ -0,0 +1,245 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { PartRepository } from '@partsy/parts-domain';
+import { ErrorCode, type Result } from '@partsy/shared-utils';
+import {
+  CreatePartUseCase,
+  GetPartUseCase,
+  BatchGetPartsUseCase,
+  UpdatePartUseCase,
+  DeletePartUseCase,
+  SearchPartsUseCase,
+  SuggestPartsUseCase,
+  INVALID_CURSOR,
+  type PartDTO,
+  type SearchPartsResponseDTO
+} from '@partsy/parts-application';
+import { BatchGetPartsRequestSchema, CreatePartRequestSchema, UpdatePartRequestSchema } from '@partsy/sdk';
+import { HttpError, sendCacheableJson, sendError, sendJson, sendNoContent, type Validators } from './http.js';
+import { parseSearchQuery, parseSuggestQuery, readValidatedBody } from './requests.js';
+
+export interface PartsServerOptions {
+  repository: PartRepository;
+  // Prefix the routes are mounted under; matches the SDK's development base URL
+  basePath?: string;
+  // When set, every request must carry `Authorization: Bearer <authToken>`
+  authToken?: string;
+  // Access-Control-Allow-Origin value, so browser apps on another origin can call the server
+  corsOrigin?: string;
+}
+
+export type PartsRequestHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: string[];
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  handle(context: RouteContext): Promise<void>;
+}
+
+export const DEFAULT_BASE_PATH = '/api/v1';
+
+function toHttpError(result: Result<unknown>): HttpError {
+  const message = result.getError();
+  switch (result.getErrorCode()) {
+    case ErrorCode.NOT_FOUND:
+      return new HttpError(404, 'PART_NOT_FOUND', message);
+    case ErrorCode.CONFLICT:
+      return new HttpError(409, 'PART_ALREADY_EXISTS', message);
+    case ErrorCode.VALIDATION:
+      if (message === INVALID_CURSOR) {
+        return new HttpError(400, 'INVALID_PARAMETER', message, [{ field: 'cursor', message, code: 'INVALID_FORMAT' }]);
+      }
+      // Domain rules carry no field paths, but the body still follows the ValidationError schema
+      return new HttpError(400, 'VALIDATION_ERROR', message, []);
+    default:
+      return new HttpError(500, 'INTERNAL_ERROR', message);
+  }
+}
+
+// Route params arrive percent-encoded; a malformed escape is the client's mistake
+function decodeParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    throw new HttpError(400, 'INVALID_PARAMETER', `Malformed path parameter: ${param}`);
+  }
+}
+
+// A part changes exactly when its updatedAt does
+function partValidators(part: PartDTO): Validators {
+  return { etag: `"${part.id}-${part.updatedAt.getTime().toString(36)}"`, lastModified: part.updatedAt };
+}
+
+// Search results also change when parts are added or deleted, which no single
+// updatedAt reflects, so they get an ETag over ids and versions but no Last-Modified
+function searchValidators(response: SearchPartsResponseDTO): Validators {
+  const { parts, facets, ...paging } = response;
+  const hash = createHash('sha1')
+    .update(JSON.stringify([paging, facets, parts.map(part => [part.id, part.updatedAt.getTime(), part.score])]))
+    .digest('base64url');
+  return { etag: `W/"${hash}"` };
+}
+
+function createRoutes(repository: PartRepository): Route[] {
+  const createPart = new CreatePartUseCase(repository);
+  const getPart = new GetPartUseCase(repository);
+  const batchGetParts = new BatchGetPartsUseCase(repository);
+  const updatePart = new UpdatePartUseCase(repository);
+  const deletePart = new DeletePartUseCase(repository);
+  const searchParts = new SearchPartsUseCase(repository);
+  const suggestParts = new SuggestPartsUseCase(repository);
+
+  // Literal paths come before /parts/{id} so "search" is never taken for an id
+  return [
+    {
+      method: 'GET',
+      path: /^\/parts\/search$/,
+      async handle({ req, res, url }) {
+        const result = await searchParts.execute(parseSearchQuery(url.searchParams));
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendCacheableJson(req, res, result.getValue(), searchValidators(result.getValue()));
+      }
+    },
+    {
+      method: 'GET',
+      path: /^\/parts\/suggest$/,
+      async handle({ res, url }) {
+        const result = await suggestParts.execute(parseSuggestQuery(url.searchParams));
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendJson(res, 200, result.getValue());
+      }
+    },
+    {
+      method: 'POST',
+      path: /^\/parts$/,
+      async handle({ req, res }) {
+        const result = await createPart.execute(await readValidatedBody(req, CreatePartRequestSchema));
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendJson(res, 201, result.getValue());
+      }
+    },
+    {
+      method: 'POST',
+      path: /^\/parts\/batch$/,
+      async handle({ req, res }) {
+        const { ids } = await readValidatedBody(req, BatchGetPartsRequestSchema);
+        const result = await batchGetParts.execute(ids);
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendJson(res, 200, result.getValue());
+      }
+    },
+    {
+      method: 'GET',
+      path: /^\/parts\/([^/]+)$/,
+      async handle({ req, res, params }) {
+        const result = await getPart.execute(params[0]!);
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendCacheableJson(req, res, result.getValue(), partValidators(result.getValue()));
+      }
+    },
+    {
+      method: 'PUT',
+      path: /^\/parts\/([^/]+)$/,
+      async handle({ req, res, params }) {
+        const result = await updatePart.execute(params[0]!, await readValidatedBody(req, UpdatePartRequestSchema));
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendJson(res, 200, result.getValue());
+      }
+    },
+    {
+      method: 'DELETE',
+      path: /^\/parts\/([^/]+)$/,
+      async handle({ res, params }) {
+        const result = await deletePart.execute(params[0]!);
+        if (result.isFailure()) {
+          throw toHttpError(result);
+        }
+        sendNoContent(res);
+      }
+    }
+  ];
+}
+
+/**
+ * Request handler serving the routes of docs/api-specification.yaml on top of the
+ * parts-application use cases. Usable with `http.createServer` or as middleware.
+ */
+export function createPartsRequestHandler(options: PartsServerOptions): PartsRequestHandler {
+  const basePath = (options.basePath ?? DEFAULT_BASE_PATH).replace(/\/$/, '');
+  const routes = createRoutes(options.repository);
+
+  return async (req, res) => {
+    // Echo the client's correlation ID so both sides can log the same one
+    const requestId = [req.headers['x-request-id']].flat()[0] || randomUUID();
+    res.setHeader('X-Request-ID', requestId);
+
+    try {
+      if (options.corsOrigin) {
+        res.setHeader('Access-Control-Allow-Origin', options.corsOrigin);
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-None-Match, If-Modified-Since, X-Request-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'ETag, Last-Modified, X-Request-ID');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+      }
+
+      if (req.method === 'OPTIONS') {
+        sendNoContent(res);
+        return;
+      }
+
+      // Before routing, so unauthenticated callers can't probe which routes exist
+      if (options.authToken && req.headers.authorization !== `Bearer ${options.authToken}`) {
+        throw new HttpError(401, 'UNAUTHORIZED', 'Missing or invalid bearer token');
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (!url.pathname.startsWith(basePath)) {
+        throw new HttpError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+      }
+      const path = url.pathname.slice(basePath.length) || '/';
+
+      const matching = routes
+        .map(route => ({ route, match: route.path.exec(path) }))
+        .filter(({ match }) => match !== null);
+      if (matching.length === 0) {
+        throw new HttpError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+      }
+
+      const matched = matching.find(({ route }) => route.method === req.method);
+      if (!matched) {
+        res.setHeader('Allow', matching.map(({ route }) => route.method).join(', '));
+        throw new HttpError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not allowed on ${url.pathname}`);
+      }
+
+      const params = matched.match!.slice(1).map(decodeParam);
+      await matched.route.handle({ req, res, url, params });
+    } catch (error) {
+      sendError(res, error instanceof HttpError
+        ? error
+        : new HttpError(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error occurred'), requestId);
+    }
+  };
+}
+
+export function createPartsServer(options: PartsServerOptions): Server {
+  const handler = createPartsRequestHandler(options);
+  return createServer((req, res) => void handler(req, res));
+}
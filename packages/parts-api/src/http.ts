@@ -0,0 +1,114 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { FieldViolation } from '@partsy/sdk';
+
+// Bodies larger than this are rejected before parsing
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * A failure that maps directly onto an HTTP response with the spec's `Error` body,
+ * or its `ValidationError` body when `errors` is set
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly errors?: FieldViolation[]
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (text.trim().length === 0) {
+    throw new HttpError(400, 'VALIDATION_ERROR', 'Request body is required');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+// Validators a GET response is sent with, for clients to make conditional requests
+export interface Validators {
+  etag: string;
+  lastModified?: Date;
+}
+
+// Weak comparison, as If-None-Match calls for: W/"x" matches "x"
+function etagMatches(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.trim() === '*' || header.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+// If-None-Match wins over If-Modified-Since when both are sent
+function isNotModified(req: IncomingMessage, { etag, lastModified }: Validators): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch !== undefined) {
+    return etagMatches(ifNoneMatch, etag);
+  }
+  const ifModifiedSince = Date.parse(req.headers['if-modified-since'] ?? '');
+  // HTTP dates have whole-second precision
+  return lastModified !== undefined && !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) <= Math.floor(ifModifiedSince / 1000);
+}
+
+/**
+ * Sends a 200 carrying ETag / Last-Modified, or an empty 304 when the request's
+ * conditional headers show the client already has this representation
+ */
+export function sendCacheableJson(req: IncomingMessage, res: ServerResponse, body: unknown, validators: Validators): void {
+  const headers: Record<string, string> = {
+    'ETag': validators.etag,
+    // Clients may store the response but must revalidate before reusing it
+    'Cache-Control': 'no-cache',
+    ...(validators.lastModified && { 'Last-Modified': validators.lastModified.toUTCString() })
+  };
+
+  if (isNotModified(req, validators)) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+  sendJson(res, 200, body, headers);
+}
+
+export function sendNoContent(res: ServerResponse): void {
+  res.writeHead(204);
+  res.end();
+}
+
+export function sendError(res: ServerResponse, error: HttpError, requestId?: string): void {
+  sendJson(res, error.status, {
+    message: error.message,
+    code: error.code,
+    ...(error.errors && { errors: error.errors }),
+    ...(requestId && { requestId }),
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,3 @@
+export * from './PartsServer.js';
+export * from './http.js';
+export * from './requests.js';
@@ -0,0 +1,19 @@
+import { InMemoryPartRepository } from '@partsy/parts-infrastructure';
+import { createPartsServer, DEFAULT_BASE_PATH } from './PartsServer.js';
+
+// Local API for the demo app's real-API mode: seeded in-memory data on the SDK's
+// development URL, http://localhost:8080/api/v1
+const port = Number(process.env.PORT ?? 8080);
+
+const repository = new InMemoryPartRepository();
+await repository.seedWithInitialData();
+
+const server = createPartsServer({
+  repository,
+  authToken: process.env.PARTSY_API_KEY,
+  corsOrigin: process.env.CORS_ORIGIN ?? '*'
+});
+
+server.listen(port, () => {
+  console.log(`Parts API listening on http://localhost:${port}${DEFAULT_BASE_PATH}`);
+});
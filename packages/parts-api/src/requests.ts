@@ -0,0 +1,59 @@
+import type { IncomingMessage } from 'node:http';
+import type { z } from 'zod';
+import {
+  SearchPartsQuerySchema,
+  SuggestPartsQuerySchema,
+  ValidationError,
+  parseWithSchema
+} from '@partsy/sdk';
+import type { SearchPartsDTO, SortOptionDTO, SuggestPartsDTO } from '@partsy/parts-application';
+import { HttpError, readJsonBody } from './http.js';
+
+function validate<S extends z.ZodTypeAny>(schema: S, data: unknown, subject: string, code: string): z.output<S> {
+  try {
+    return parseWithSchema(schema, data, subject);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new HttpError(400, code, error.message, error.violations);
+    }
+    throw error;
+  }
+}
+
+// Empty parameters (`?name=`) count as absent, as the SDK never sends them
+function queryObject(params: URLSearchParams): Record<string, string> {
+  return Object.fromEntries([...params].filter(([, value]) => value !== ''));
+}
+
+/**
+ * Reads a JSON request body and checks it against a schema from the spec
+ */
+export async function readValidatedBody<S extends z.ZodTypeAny>(req: IncomingMessage, schema: S): Promise<z.output<S>> {
+  return validate(schema, await readJsonBody(req), 'Request body', 'VALIDATION_ERROR');
+}
+
+/**
+ * Reads `/parts/search` query parameters into a `SearchPartsDTO`, checked against the spec
+ */
+export function parseSearchQuery(params: URLSearchParams): SearchPartsDTO {
+  const { sort, priceBuckets, ...query } = validate(
+    SearchPartsQuerySchema,
+    queryObject(params),
+    'Query',
+    'INVALID_PARAMETER'
+  );
+
+  return {
+    ...query,
+    // `price:desc,name` -> [{ field: 'price', direction: 'desc' }, { field: 'name' }]
+    sort: sort?.split(',').map(key => {
+      const [field = '', direction] = key.split(':');
+      return direction === undefined ? { field } : { field, direction: direction as SortOptionDTO['direction'] };
+    }),
+    priceBuckets: priceBuckets?.split(',').map(Number)
+  };
+}
+
+export function parseSuggestQuery(params: URLSearchParams): SuggestPartsDTO {
+  return validate(SuggestPartsQuerySchema, queryObject(params), 'Query', 'INVALID_PARAMETER');
+}
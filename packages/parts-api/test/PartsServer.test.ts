@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { InMemoryPartRepository } from '@partsy/parts-infrastructure';
+import { Result } from '@partsy/shared-utils';
+import { createPartsServer, type PartsServerOptions } from '../src/PartsServer.js';
+
+describe('PartsServer', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  async function start(options: Partial<PartsServerOptions> = {}): Promise<void> {
+    const repository = new InMemoryPartRepository();
+    await repository.seedWithInitialData();
+    server = createPartsServer({ repository, ...options });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/v1`;
+  }
+
+  function send(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  const newPart = {
+    partNumber: 'WIP-010',
+    name: 'Wiper Blade',
+    price: 12.5,
+    quantity: 40,
+    category: 'Body'
+  };
+
+  beforeEach(() => start());
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('should search with filters, sorting and facets from query parameters', async () => {
+    const response = await send('GET', '/parts/search?maxPrice=150&sort=price:desc&includeFacets=true&limit=2');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ total: 4, page: 1, limit: 2, totalPages: 2 });
+    expect(body.parts.map((p: { partNumber: string }) => p.partNumber)).toEqual(['BRK-002', 'BAT-005']);
+    expect(body.facets.statuses).toContainEqual({ value: 'ACTIVE', count: 4 });
+  });
+
+  it('should page through results with cursors', async () => {
+    const first = await (await send('GET', '/parts/search?sort=price:asc&limit=2')).json();
+    const second = await (await send('GET', `/parts/search?sort=price:asc&limit=2&cursor=${first.nextCursor}`)).json();
+    const back = await (await send('GET', `/parts/search?sort=price:asc&limit=2&cursor=${second.prevCursor}`)).json();
+    const otherSort = await send('GET', `/parts/search?sort=name:asc&limit=2&cursor=${first.nextCursor}`);
+
+    expect(first.prevCursor).toBeUndefined();
+    expect(second.parts[0].price).toBeGreaterThanOrEqual(first.parts[1].price);
+    expect(back.parts).toEqual(first.parts);
+    expect(otherSort.status).toBe(400);
+    expect(await otherSort.json()).toMatchObject({ code: 'INVALID_PARAMETER', errors: [{ field: 'cursor' }] });
+  });
+
+  it('should return suggestions', async () => {
+    const response = await send('GET', '/parts/suggest?query=brk0');
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).suggestions[0]).toMatchObject({ text: 'BRK-002', field: 'partNumber' });
+  });
+
+  it('should create, read, update and delete a part', async () => {
+    const created = await send('POST', '/parts', newPart);
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+
+    const fetched = await send('GET', `/parts/${id}`);
+    expect(await fetched.json()).toMatchObject({ id, ...newPart, status: 'ACTIVE' });
+
+    const updated = await send('PUT', `/parts/${id}`, { price: 9.99 });
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).price).toBe(9.99);
+
+    const deleted = await send('DELETE', `/parts/${id}`);
+    expect(deleted.status).toBe(204);
+    expect(await deleted.text()).toBe('');
+
+    expect((await send('GET', `/parts/${id}`)).status).toBe(404);
+  });
+
+  it('should answer conditional part requests with 304 until the part changes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const { parts: [part] } = await (await send('GET', '/parts/search?partNumber=BRK-002')).json();
+      const first = await send('GET', `/parts/${part.id}`);
+      const etag = first.headers.get('etag')!;
+      const lastModified = first.headers.get('last-modified')!;
+
+      const unchanged = await send('GET', `/parts/${part.id}`, undefined, { 'If-None-Match': etag });
+      const sinceUnchanged = await send('GET', `/parts/${part.id}`, undefined, { 'If-Modified-Since': lastModified });
+      vi.advanceTimersByTime(1000);
+      await send('PUT', `/parts/${part.id}`, { price: 79.99 });
+      const changed = await send('GET', `/parts/${part.id}`, undefined, { 'If-None-Match': etag });
+
+      expect(etag).toMatch(/^"[^"]+"$/);
+      expect(new Date(lastModified).getTime()).toBe(Math.floor(new Date(part.updatedAt).getTime() / 1000) * 1000);
+      expect(unchanged.status).toBe(304);
+      expect(await unchanged.text()).toBe('');
+      expect(sinceUnchanged.status).toBe(304);
+      expect(changed.status).toBe(200);
+      expect(changed.headers.get('etag')).not.toBe(etag);
+      expect((await changed.json()).price).toBe(79.99);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should revalidate search results by ETag', async () => {
+    const first = await send('GET', '/parts/search?category=Brakes');
+    const etag = first.headers.get('etag')!;
+
+    const unchanged = await send('GET', '/parts/search?category=Brakes', undefined, { 'If-None-Match': etag });
+    await send('POST', '/parts', { ...newPart, category: 'Brakes' });
+    const changed = await send('GET', '/parts/search?category=Brakes', undefined, { 'If-None-Match': etag });
+
+    expect(first.headers.get('last-modified')).toBeNull();
+    expect(unchanged.status).toBe(304);
+    expect(changed.status).toBe(200);
+    expect((await changed.json()).total).toBe((await first.json()).total + 1);
+  });
+
+  it('should fetch parts in bulk', async () => {
+    const { parts } = await (await send('GET', '/parts/search?sort=partNumber&limit=2')).json();
+    const ids = parts.map((part: { id: string }) => part.id);
+
+    const response = await send('POST', '/parts/batch', { ids: [ids[1], 'missing', ids[0], ids[1]] });
+    const empty = await send('POST', '/parts/batch', { ids: [] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ parts: [parts[1], parts[0]], notFound: ['missing'] });
+    expect(empty.status).toBe(400);
+    expect(await empty.json()).toMatchObject({ errors: [{ field: 'ids' }] });
+  });
+
+  it('should answer failures with the Error schema and matching status codes', async () => {
+    const missing = await send('DELETE', '/parts/unknown-id');
+    const duplicate = await send('POST', '/parts', { ...newPart, partNumber: 'BRK-002' });
+    const invalid = await send('POST', '/parts', { ...newPart, price: -5 });
+    const badQuery = await send('GET', '/parts/search?limit=500');
+
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      message: 'Part not found',
+      code: 'PART_NOT_FOUND',
+      requestId: missing.headers.get('x-request-id'),
+      timestamp: expect.any(String)
+    });
+    expect(duplicate.status).toBe(409);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      errors: [{ field: 'price', code: 'MIN_VALUE', message: 'Number must be greater than or equal to 0' }]
+    });
+    expect(badQuery.status).toBe(400);
+    expect(await badQuery.json()).toMatchObject({ code: 'INVALID_PARAMETER', errors: [{ field: 'limit', code: 'MAX_VALUE' }] });
+  });
+
+  it('should answer repository failures with 500 whatever their message', async () => {
+    const repository = new InMemoryPartRepository();
+    vi.spyOn(repository, 'findById').mockResolvedValue(Result.fail('connect ECONNREFUSED 127.0.0.1:5432'));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await start({ repository });
+
+    const response = await send('GET', '/parts/some-id');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'INTERNAL_ERROR' });
+  });
+
+  it('should validate bodies and queries against the spec before reaching the use cases', async () => {
+    const wrongTypes = await send('POST', '/parts', { ...newPart, quantity: '40', name: undefined });
+    const badStatus = await send('GET', '/parts/search?status=SOLD&inStock=yes');
+    const domainRule = await send('POST', '/parts', { ...newPart, name: '   ' });
+
+    expect(wrongTypes.status).toBe(400);
+    expect((await wrongTypes.json()).errors.map((e: { field: string; code: string }) => `${e.field}:${e.code}`))
+      .toEqual(['name:REQUIRED', 'quantity:INVALID_TYPE']);
+    expect((await badStatus.json()).errors.map((e: { field: string }) => e.field)).toEqual(['status', 'inStock']);
+    expect(await domainRule.json()).toMatchObject({ message: 'Part name cannot be empty', errors: [] });
+  });
+
+  it('should echo the client request ID in the header and error body', async () => {
+    const response = await send('GET', '/parts/unknown-id', undefined, { 'X-Request-ID': 'req-42' });
+
+    expect(response.headers.get('x-request-id')).toBe('req-42');
+    expect((await response.json()).requestId).toBe('req-42');
+  });
+
+  it('should reject malformed bodies and unknown routes', async () => {
+    const malformed = await fetch(`${baseUrl}/parts`, { method: 'POST', body: '{"name":' });
+    const unknown = await send('GET', '/suppliers');
+    const wrongMethod = await send('PATCH', '/parts/some-id');
+    const badEscape = await send('GET', '/parts/%E0%A4%A');
+
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).code).toBe('INVALID_JSON');
+    expect(unknown.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('GET, PUT, DELETE');
+    expect(badEscape.status).toBe(400);
+    expect((await badEscape.json()).code).toBe('INVALID_PARAMETER');
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await start({ authToken: 'secret' });
+
+    expect((await send('GET', '/parts/search')).status).toBe(401);
+    // Routing would otherwise tell which routes exist
+    expect((await send('GET', '/suppliers')).status).toBe(401);
+    expect((await send('PATCH', '/parts/some-id')).status).toBe(401);
+    expect((await send('GET', '/parts/search', undefined, { Authorization: 'Bearer secret' })).status).toBe(200);
+  });
+});
@@ -26,9 +26,17 @@ export interface PartDTO {
   category: string;
   createdAt: Date;
   updatedAt: Date;
+  // Relevance of the hit when searching with a free-text query
+  score?: number;
+}
+
+export interface SortOptionDTO {
+  field: string;
+  direction?: 'asc' | 'desc';
 }
 
 export interface SearchPartsDTO {
+  query?: string;
   name?: string;
   partNumber?: string;
   category?: string;
@@ -36,8 +44,32 @@ export interface SearchPartsDTO {
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
+  fuzzy?: boolean;
+  sort?: SortOptionDTO[];
   page?: number;
   limit?: number;
+  // nextCursor or prevCursor of an earlier response with the same sort; takes precedence over page
+  cursor?: string;
+  includeFacets?: boolean;
+  // Ascending price boundaries, e.g. [50, 100] yields <50, 50-100 and >=100
+  priceBuckets?: number[];
+}
+
+export interface FacetCountDTO {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucketDTO {
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+export interface SearchFacetsDTO {
+  categories: FacetCountDTO[];
+  statuses: FacetCountDTO[];
+  priceBuckets: PriceBucketDTO[];
 }
 
 export interface SearchPartsResponseDTO {
@@ -46,4 +78,37 @@ export interface SearchPartsResponseDTO {
   page: number;
   limit: number;
   totalPages: number;
+  // Opaque positions of the neighbouring pages; absent at either end or when the store cannot page by cursor
+  nextCursor?: string;
+  prevCursor?: string;
+  facets?: SearchFacetsDTO;
+}
+
+export interface BatchGetPartsResponseDTO {
+  // In request order, each part once
+  parts: PartDTO[];
+  // Requested IDs with no matching part
+  notFound: string[];
+}
+
+export interface SuggestPartsDTO {
+  query: string;
+  limit?: number;
+}
+
+// Character range [start, end) of the suggestion text that matched the query
+export interface HighlightRangeDTO {
+  start: number;
+  end: number;
+}
+
+export interface SuggestionDTO {
+  text: string;
+  field: 'name' | 'partNumber' | 'category';
+  partId?: string;
+  highlights: HighlightRangeDTO[];
+}
+
+export interface SuggestPartsResponseDTO {
+  suggestions: SuggestionDTO[];
 }
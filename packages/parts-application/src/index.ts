@@ -1,2 +1,3 @@
 export * from './dtos';
+export * from './mappers';
 export * from './use-cases';
\ No newline at end of file
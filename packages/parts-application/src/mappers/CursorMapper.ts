@@ -0,0 +1,53 @@
+import { SearchCriteria, SearchCursor } from '@partsy/parts-domain';
+
+interface CursorPayload {
+  // Ordering the position belongs to, e.g. `price:asc` or `relevance`
+  o: string;
+  d: SearchCursor['direction'];
+  v: SearchCursor['values'];
+  id: string;
+}
+
+// Cursors are only meaningful under the ordering they were taken from
+function orderingOf(criteria: SearchCriteria): string {
+  if (criteria.sort?.length) {
+    return criteria.sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+  }
+  return criteria.query ? 'relevance' : 'created';
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Opaque token for a search position, valid for searches with the same ordering
+ */
+export function toCursorToken(cursor: SearchCursor, criteria: SearchCriteria): string {
+  const payload: CursorPayload = { o: orderingOf(criteria), d: cursor.direction, v: cursor.values, id: cursor.id };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Reads a token from toCursorToken; null when it is malformed or was taken
+ * under a different ordering
+ */
+export function fromCursorToken(token: string, criteria: SearchCriteria): SearchCursor | null {
+  try {
+    const payload = JSON.parse(fromBase64Url(token)) as Partial<CursorPayload>;
+    const valid = payload.o === orderingOf(criteria) &&
+      (payload.d === 'after' || payload.d === 'before') &&
+      Array.isArray(payload.v) &&
+      payload.v.every(value => typeof value === 'string' || typeof value === 'number') &&
+      typeof payload.id === 'string';
+    return valid ? { direction: payload.d!, values: payload.v!, id: payload.id! } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,17 @@
+import { Part } from '@partsy/parts-domain';
+import { PartDTO } from '../dtos';
+
+export function toPartDTO(part: Part): PartDTO {
+  return {
+    id: part.getId().getValue(),
+    partNumber: part.getPartNumber().getValue(),
+    name: part.getName().getValue(),
+    description: part.getDescription(),
+    price: part.getPrice().getValue(),
+    quantity: part.getQuantity().getValue(),
+    status: part.getStatus(),
+    category: part.getCategory().getValue(),
+    createdAt: part.getCreatedAt(),
+    updatedAt: part.getUpdatedAt()
+  };
+}
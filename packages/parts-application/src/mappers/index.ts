@@ -0,0 +1,2 @@
+export * from './PartMapper';
+export * from './CursorMapper';
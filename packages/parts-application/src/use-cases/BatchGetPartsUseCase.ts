@@ -0,0 +1,43 @@
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import { PartRepository, PartId } from '@partsy/parts-domain';
+import { BatchGetPartsResponseDTO, PartDTO } from '../dtos';
+import { toPartDTO } from '../mappers';
+import { failFromError } from './errors';
+
+export const MAX_BATCH_SIZE = 100;
+
+export class BatchGetPartsUseCase {
+  constructor(private partRepository: PartRepository) {}
+
+  async execute(ids: string[]): Promise<Result<BatchGetPartsResponseDTO>> {
+    try {
+      const uniqueIds = [...new Set(ids)];
+      if (uniqueIds.length === 0) {
+        return Result.fail('At least one part ID is required', ErrorCode.VALIDATION);
+      }
+      if (uniqueIds.length > MAX_BATCH_SIZE) {
+        return Result.fail(`At most ${MAX_BATCH_SIZE} part IDs can be fetched at once`, ErrorCode.VALIDATION);
+      }
+
+      const findResults = await Promise.all(uniqueIds.map(id => this.partRepository.findById(new PartId(id))));
+
+      const parts: PartDTO[] = [];
+      const notFound: string[] = [];
+      for (const [index, findResult] of findResults.entries()) {
+        if (findResult.isFailure()) {
+          return Result.fail(findResult.getError(), findResult.getErrorCode());
+        }
+        const part = findResult.getValue();
+        if (part) {
+          parts.push(toPartDTO(part));
+        } else {
+          notFound.push(uniqueIds[index]!);
+        }
+      }
+
+      return Result.ok({ parts, notFound });
+    } catch (error) {
+      return failFromError(error);
+    }
+  }
+}
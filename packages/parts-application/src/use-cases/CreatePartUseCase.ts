@@ -1,4 +1,4 @@
-import { Result } from '../../../shared-kernel/src';
+import { ErrorCode, Result } from '@partsy/shared-utils';
 import { 
   Part, 
   PartRepository, 
@@ -8,8 +8,10 @@ import {
   Quantity, 
   Category, 
   PartStatus 
-} from '../../../parts-domain/src';
+} from '@partsy/parts-domain';
 import { CreatePartDTO, PartDTO } from '../dtos';
+import { toPartDTO } from '../mappers';
+import { PART_NUMBER_ALREADY_EXISTS, failFromError } from './errors';
 
 export class CreatePartUseCase {
   constructor(private partRepository: PartRepository) {}
@@ -21,11 +23,11 @@ export class CreatePartUseCase {
       const existsResult = await this.partRepository.exists(partNumber);
       
       if (existsResult.isFailure()) {
-        return Result.fail(existsResult.getError());
+        return Result.fail(existsResult.getError(), existsResult.getErrorCode());
       }
 
       if (existsResult.getValue()) {
-        return Result.fail('Part with this part number already exists');
+        return Result.fail(PART_NUMBER_ALREADY_EXISTS, ErrorCode.CONFLICT);
       }
 
       // Create the part
@@ -42,26 +44,12 @@ export class CreatePartUseCase {
       // Save the part
       const saveResult = await this.partRepository.save(part);
       if (saveResult.isFailure()) {
-        return Result.fail(saveResult.getError());
+        return Result.fail(saveResult.getError(), saveResult.getErrorCode());
       }
 
-      // Return the created part as DTO
-      const partDto: PartDTO = {
-        id: part.getId().getValue(),
-        partNumber: part.getPartNumber().getValue(),
-        name: part.getName().getValue(),
-        description: part.getDescription(),
-        price: part.getPrice().getValue(),
-        quantity: part.getQuantity().getValue(),
-        status: part.getStatus(),
-        category: part.getCategory().getValue(),
-        createdAt: part.getCreatedAt(),
-        updatedAt: part.getUpdatedAt()
-      };
-
-      return Result.ok(partDto);
+      return Result.ok(toPartDTO(part));
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Unknown error occurred');
+      return failFromError(error);
     }
   }
 }
@@ -0,0 +1,30 @@
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import { PartRepository, PartId } from '@partsy/parts-domain';
+import { PART_NOT_FOUND, failFromError } from './errors';
+
+export class DeletePartUseCase {
+  constructor(private partRepository: PartRepository) {}
+
+  async execute(id: string): Promise<Result<void>> {
+    try {
+      const partId = new PartId(id);
+      const findResult = await this.partRepository.findById(partId);
+      if (findResult.isFailure()) {
+        return Result.fail(findResult.getError(), findResult.getErrorCode());
+      }
+
+      if (!findResult.getValue()) {
+        return Result.fail(PART_NOT_FOUND, ErrorCode.NOT_FOUND);
+      }
+
+      const deleteResult = await this.partRepository.delete(partId);
+      if (deleteResult.isFailure()) {
+        return Result.fail(deleteResult.getError(), deleteResult.getErrorCode());
+      }
+
+      return Result.ok();
+    } catch (error) {
+      return failFromError(error);
+    }
+  }
+}
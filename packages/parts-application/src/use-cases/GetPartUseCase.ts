@@ -0,0 +1,27 @@
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import { PartRepository, PartId } from '@partsy/parts-domain';
+import { PartDTO } from '../dtos';
+import { toPartDTO } from '../mappers';
+import { PART_NOT_FOUND, failFromError } from './errors';
+
+export class GetPartUseCase {
+  constructor(private partRepository: PartRepository) {}
+
+  async execute(id: string): Promise<Result<PartDTO>> {
+    try {
+      const findResult = await this.partRepository.findById(new PartId(id));
+      if (findResult.isFailure()) {
+        return Result.fail(findResult.getError(), findResult.getErrorCode());
+      }
+
+      const part = findResult.getValue();
+      if (!part) {
+        return Result.fail(PART_NOT_FOUND, ErrorCode.NOT_FOUND);
+      }
+
+      return Result.ok(toPartDTO(part));
+    } catch (error) {
+      return failFromError(error);
+    }
+  }
+}
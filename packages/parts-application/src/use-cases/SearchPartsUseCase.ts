@@ -1,13 +1,36 @@
-import { Result } from '../../../shared-kernel/src';
-import { PartRepository, SearchCriteria } from '../../../parts-domain/src';
-import { SearchPartsDTO, SearchPartsResponseDTO, PartDTO } from '../dtos';
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  PartRepository,
+  SearchCriteria,
+  SortOption,
+  SORT_FIELDS,
+  PriceBand,
+  PartStatus
+} from '@partsy/parts-domain';
+import {
+  SearchPartsDTO,
+  SearchPartsResponseDTO,
+  PartDTO,
+  SortOptionDTO,
+  SearchFacetsDTO
+} from '../dtos';
+import { toPartDTO, toCursorToken, fromCursorToken } from '../mappers';
+import { INVALID_CURSOR, failFromError } from './errors';
+
+export const DEFAULT_PRICE_BUCKETS = [50, 100, 500, 1000];
 
 export class SearchPartsUseCase {
   constructor(private partRepository: PartRepository) {}
 
   async execute(dto: SearchPartsDTO): Promise<Result<SearchPartsResponseDTO>> {
     try {
+      const sortResult = this.toSortOptions(dto.sort);
+      if (sortResult.isFailure()) {
+        return Result.fail(sortResult.getError(), sortResult.getErrorCode());
+      }
+
       const criteria: SearchCriteria = {
+        query: dto.query?.trim() || undefined,
         name: dto.name,
         partNumber: dto.partNumber,
         category: dto.category,
@@ -15,34 +38,43 @@ export class SearchPartsUseCase {
         minPrice: dto.minPrice,
         maxPrice: dto.maxPrice,
         inStock: dto.inStock,
+        fuzzy: dto.fuzzy,
+        sort: sortResult.getValue(),
         page: dto.page || 1,
         limit: dto.limit || 10
       };
 
+      if (dto.cursor) {
+        const cursor = fromCursorToken(dto.cursor, criteria);
+        if (!cursor) {
+          return Result.fail(INVALID_CURSOR, ErrorCode.VALIDATION);
+        }
+        criteria.cursor = cursor;
+      }
+
       const searchResult = await this.partRepository.search(criteria);
       
       if (searchResult.isFailure()) {
-        return Result.fail(searchResult.getError());
+        return Result.fail(searchResult.getError(), searchResult.getErrorCode());
+      }
+
+      let facets: SearchFacetsDTO | undefined;
+      if (dto.includeFacets) {
+        const facetsResult = await this.searchFacets(criteria, dto.priceBuckets ?? DEFAULT_PRICE_BUCKETS);
+        if (facetsResult.isFailure()) {
+          return Result.fail(facetsResult.getError(), facetsResult.getErrorCode());
+        }
+        facets = facetsResult.getValue();
       }
 
-      const parts = searchResult.getValue();
+      const { parts, total, scores, nextCursor, prevCursor } = searchResult.getValue();
       
       // Convert domain entities to DTOs
       const partDtos: PartDTO[] = parts.map(part => ({
-        id: part.getId().getValue(),
-        partNumber: part.getPartNumber().getValue(),
-        name: part.getName().getValue(),
-        description: part.getDescription(),
-        price: part.getPrice().getValue(),
-        quantity: part.getQuantity().getValue(),
-        status: part.getStatus(),
-        category: part.getCategory().getValue(),
-        createdAt: part.getCreatedAt(),
-        updatedAt: part.getUpdatedAt()
+        ...toPartDTO(part),
+        ...(scores?.has(part.getId().getValue()) && { score: scores.get(part.getId().getValue()) })
       }));
 
-      // In a real implementation, you'd get the total count from the repository
-      const total = partDtos.length;
       const totalPages = Math.ceil(total / criteria.limit!);
 
       const response: SearchPartsResponseDTO = {
@@ -50,12 +82,77 @@ export class SearchPartsUseCase {
         total,
         page: criteria.page!,
         limit: criteria.limit!,
-        totalPages
+        totalPages,
+        ...(nextCursor && { nextCursor: toCursorToken(nextCursor, criteria) }),
+        ...(prevCursor && { prevCursor: toCursorToken(prevCursor, criteria) }),
+        ...(facets && { facets })
       };
 
       return Result.ok(response);
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Unknown error occurred');
+      return failFromError(error);
     }
   }
+
+  private async searchFacets(criteria: SearchCriteria, boundaries: number[]): Promise<Result<SearchFacetsDTO>> {
+    const bandsResult = this.toPriceBands(boundaries);
+    if (bandsResult.isFailure()) {
+      return Result.fail(bandsResult.getError(), bandsResult.getErrorCode());
+    }
+
+    const facetsResult = await this.partRepository.facets(criteria, bandsResult.getValue());
+    if (facetsResult.isFailure()) {
+      return Result.fail(facetsResult.getError(), facetsResult.getErrorCode());
+    }
+
+    const { categories, statuses, priceBands } = facetsResult.getValue();
+
+    // Report every status, including those with no matches, so UIs get a stable list
+    const statusCounts = Object.values(PartStatus).map(status => ({
+      value: status,
+      count: statuses.find(s => s.value === status)?.count ?? 0
+    }));
+
+    return Result.ok({
+      categories,
+      statuses: statusCounts,
+      priceBuckets: priceBands.map(({ min, max, count }) => ({ min, max, count }))
+    });
+  }
+
+  private toPriceBands(boundaries: number[]): Result<PriceBand[]> {
+    if (boundaries.some(value => !Number.isFinite(value) || value < 0)) {
+      return Result.fail('Price buckets must be non-negative numbers', ErrorCode.VALIDATION);
+    }
+
+    const sorted = [...new Set(boundaries)].sort((a, b) => a - b);
+    const bands: PriceBand[] = [];
+    let min: number | undefined;
+    for (const max of sorted) {
+      bands.push({ min, max });
+      min = max;
+    }
+    bands.push({ min });
+
+    return Result.ok(bands);
+  }
+
+  private toSortOptions(sort?: SortOptionDTO[]): Result<SortOption[] | undefined> {
+    if (!sort?.length) {
+      return Result.ok(undefined);
+    }
+
+    const options: SortOption[] = [];
+    for (const { field, direction = 'asc' } of sort) {
+      if (!(SORT_FIELDS as readonly string[]).includes(field)) {
+        return Result.fail(`Invalid sort field: ${field}`, ErrorCode.VALIDATION);
+      }
+      if (direction !== 'asc' && direction !== 'desc') {
+        return Result.fail(`Invalid sort direction: ${direction}`, ErrorCode.VALIDATION);
+      }
+      options.push({ field: field as SortOption['field'], direction });
+    }
+
+    return Result.ok(options);
+  }
 }
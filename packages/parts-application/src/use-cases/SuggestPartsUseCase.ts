@@ -0,0 +1,126 @@
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import { PartRepository, PartNumber, SuggestionCandidate, SuggestionField } from '@partsy/parts-domain';
+import { SuggestPartsDTO, SuggestPartsResponseDTO, SuggestionDTO, HighlightRangeDTO } from '../dtos';
+import { failFromError } from './errors';
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 25;
+
+// Ties between equally good matches go to names first, then part numbers, then categories
+const FIELD_PRIORITY: Record<SuggestionField, number> = {
+  name: 0,
+  partNumber: 1,
+  category: 2
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export class SuggestPartsUseCase {
+  constructor(private partRepository: PartRepository) {}
+
+  async execute(dto: SuggestPartsDTO): Promise<Result<SuggestPartsResponseDTO>> {
+    try {
+      const query = dto.query?.trim() ?? '';
+      const limit = dto.limit ?? DEFAULT_SUGGESTION_LIMIT;
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTION_LIMIT) {
+        return Result.fail(`Limit must be an integer between 1 and ${MAX_SUGGESTION_LIMIT}`, ErrorCode.VALIDATION);
+      }
+
+      if (query.length === 0) {
+        return Result.ok({ suggestions: [] });
+      }
+
+      const candidatesResult = await this.partRepository.suggest(query, limit);
+      if (candidatesResult.isFailure()) {
+        return Result.fail(candidatesResult.getError(), candidatesResult.getErrorCode());
+      }
+
+      const seen = new Set<string>();
+      const suggestions: SuggestionDTO[] = [];
+
+      for (const candidate of candidatesResult.getValue()) {
+        const key = `${candidate.field}:${candidate.value.toLowerCase()}`;
+        const highlights = this.highlight(candidate, query);
+        if (!highlights || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        suggestions.push({
+          text: candidate.value,
+          field: candidate.field,
+          ...(candidate.partId && { partId: candidate.partId }),
+          highlights
+        });
+      }
+
+      return Result.ok({ suggestions: this.rank(suggestions).slice(0, limit) });
+    } catch (error) {
+      return failFromError(error);
+    }
+  }
+
+  // Backends may over-match (e.g. SQL LIKE), so only candidates we can highlight are kept
+  private highlight(candidate: SuggestionCandidate, query: string): HighlightRangeDTO[] | null {
+    return candidate.field === 'partNumber'
+      ? this.highlightPartNumber(candidate.value, query)
+      : this.highlightWords(candidate.value, query);
+  }
+
+  // Each query word must be the start of a distinct word in the text
+  private highlightWords(text: string, query: string): HighlightRangeDTO[] | null {
+    const textWords = Array.from(text.matchAll(WORD_PATTERN), match => ({
+      word: match[0].toLowerCase(),
+      start: match.index!
+    }));
+    const used = new Set<number>();
+    const highlights: HighlightRangeDTO[] = [];
+
+    for (const [queryWord] of query.toLowerCase().matchAll(WORD_PATTERN)) {
+      const index = textWords.findIndex((textWord, i) => !used.has(i) && textWord.word.startsWith(queryWord));
+      if (index === -1) {
+        return null;
+      }
+      used.add(index);
+      highlights.push({ start: textWords[index]!.start, end: textWords[index]!.start + queryWord.length });
+    }
+
+    return highlights.length > 0 ? highlights.sort((a, b) => a.start - b.start) : null;
+  }
+
+  // Separators are ignored, so "brk0" highlights "BRK" and "0" in "BRK-002"
+  private highlightPartNumber(partNumber: string, query: string): HighlightRangeDTO[] | null {
+    const prefix = PartNumber.normalize(query);
+    if (prefix.length === 0 || !PartNumber.normalize(partNumber).startsWith(prefix)) {
+      return null;
+    }
+
+    const highlights: HighlightRangeDTO[] = [];
+    let matched = 0;
+
+    for (let i = 0; i < partNumber.length && matched < prefix.length; i++) {
+      if (!/[A-Za-z0-9]/.test(partNumber[i]!)) {
+        continue;
+      }
+      const last = highlights[highlights.length - 1];
+      if (last && last.end === i) {
+        last.end = i + 1;
+      } else {
+        highlights.push({ start: i, end: i + 1 });
+      }
+      matched++;
+    }
+
+    return highlights;
+  }
+
+  // Completions of the whole text first, then field priority, then the shortest text
+  private rank(suggestions: SuggestionDTO[]): SuggestionDTO[] {
+    return [...suggestions].sort((a, b) =>
+      Number(b.highlights[0]!.start === 0) - Number(a.highlights[0]!.start === 0) ||
+      FIELD_PRIORITY[a.field] - FIELD_PRIORITY[b.field] ||
+      a.text.length - b.text.length ||
+      a.text.localeCompare(b.text)
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  PartRepository,
+  PartId,
+  PartName,
+  Price,
+  Quantity,
+  Category
+} from '@partsy/parts-domain';
+import { UpdatePartDTO, PartDTO } from '../dtos';
+import { toPartDTO } from '../mappers';
+import { PART_NOT_FOUND, failFromError } from './errors';
+
+export class UpdatePartUseCase {
+  constructor(private partRepository: PartRepository) {}
+
+  async execute(id: string, dto: UpdatePartDTO): Promise<Result<PartDTO>> {
+    try {
+      const findResult = await this.partRepository.findById(new PartId(id));
+      if (findResult.isFailure()) {
+        return Result.fail(findResult.getError(), findResult.getErrorCode());
+      }
+
+      const part = findResult.getValue();
+      if (!part) {
+        return Result.fail(PART_NOT_FOUND, ErrorCode.NOT_FOUND);
+      }
+
+      // Validate every field before touching the part so a bad value can't leave it half-updated
+      const name = dto.name !== undefined ? new PartName(dto.name) : undefined;
+      const price = dto.price !== undefined ? new Price(dto.price) : undefined;
+      const quantity = dto.quantity !== undefined ? new Quantity(dto.quantity) : undefined;
+      const category = dto.category !== undefined ? new Category(dto.category) : undefined;
+
+      // Only fields that actually change go through the business methods, so each
+      // PartUpdated event describes a real change
+      if (name && !name.equals(part.getName())) {
+        part.updateName(name);
+      }
+      if (dto.description !== undefined && dto.description !== part.getDescription()) {
+        part.updateDescription(dto.description);
+      }
+      if (price && !price.equals(part.getPrice())) {
+        part.updatePrice(price);
+      }
+      if (quantity && !quantity.equals(part.getQuantity())) {
+        part.updateQuantity(quantity);
+      }
+      if (category && !category.equals(part.getCategory())) {
+        part.updateCategory(category);
+      }
+
+      const saveResult = await this.partRepository.save(part);
+      if (saveResult.isFailure()) {
+        return Result.fail(saveResult.getError(), saveResult.getErrorCode());
+      }
+
+      return Result.ok(toPartDTO(part));
+    } catch (error) {
+      return failFromError(error);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { DomainError, ErrorCode, Result } from '@partsy/shared-utils';
+
+// Failure messages callers may need to tell apart within one ErrorCode
+export const PART_NOT_FOUND = 'Part not found';
+export const PART_NUMBER_ALREADY_EXISTS = 'Part with this part number already exists';
+export const INVALID_CURSOR = 'Invalid cursor';
+
+// For the use cases' catch blocks: a broken domain rule is the caller's to fix,
+// anything else is unexpected
+export function failFromError<T>(error: unknown): Result<T> {
+  return error instanceof DomainError
+    ? Result.fail(error.message, ErrorCode.VALIDATION)
+    : Result.fail(error instanceof Error ? error.message : 'Unknown error occurred');
+}
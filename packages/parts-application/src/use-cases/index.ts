@@ -1,2 +1,8 @@
+export * from './errors';
 export * from './CreatePartUseCase';
+export * from './GetPartUseCase';
+export * from './BatchGetPartsUseCase';
+export * from './UpdatePartUseCase';
+export * from './DeletePartUseCase';
 export * from './SearchPartsUseCase';
+export * from './SuggestPartsUseCase';
\ No newline at end of file
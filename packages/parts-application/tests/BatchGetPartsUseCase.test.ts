@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartRepository,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { BatchGetPartsUseCase } from '../src/index';
+
+function createPart(partNumber: string): Part {
+  return Part.create({
+    partNumber: new PartNumber(partNumber),
+    name: new PartName(`Part ${partNumber}`),
+    price: new Price(10),
+    quantity: new Quantity(1),
+    status: PartStatus.ACTIVE,
+    category: new Category('Engine')
+  });
+}
+
+function createRepository(parts: Part[], findById?: PartRepository['findById']): PartRepository {
+  return {
+    save: async () => Result.ok(),
+    findById: findById ?? (async id => Result.ok(parts.find(p => p.getId().equals(id)) ?? null)),
+    findByPartNumber: async () => Result.ok(null),
+    search: async () => Result.ok({ parts: [], total: 0 }),
+    facets: async () => Result.ok({ categories: [], statuses: [], priceBands: [] }),
+    suggest: async () => Result.ok([]),
+    delete: async () => Result.ok(),
+    exists: async () => Result.ok(false)
+  };
+}
+
+describe('BatchGetPartsUseCase', () => {
+  it('should return each requested part once, in request order, and list the missing ids', async () => {
+    const [first, second] = [createPart('ENG-001'), createPart('ENG-002')];
+    const [firstId, secondId] = [first.getId().getValue(), second.getId().getValue()];
+
+    const result = await new BatchGetPartsUseCase(createRepository([first, second]))
+      .execute([secondId, 'missing', firstId, secondId]);
+
+    expect(result.getValue().parts.map(part => part.id)).toEqual([secondId, firstId]);
+    expect(result.getValue().notFound).toEqual(['missing']);
+  });
+
+  it('should reject empty and oversized batches', async () => {
+    const useCase = new BatchGetPartsUseCase(createRepository([]));
+    const ids = Array.from({ length: 101 }, (_, index) => `id-${index}`);
+
+    expect((await useCase.execute([])).getError()).toBe('At least one part ID is required');
+    expect((await useCase.execute(ids)).getError()).toBe('At most 100 part IDs can be fetched at once');
+  });
+
+  it('should propagate repository failures', async () => {
+    const repository = createRepository([], async () => Result.fail('Failed to find part: connection refused'));
+
+    const result = await new BatchGetPartsUseCase(repository).execute(['p1']);
+
+    expect(result.getError()).toBe('Failed to find part: connection refused');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartId,
+  PartRepository,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { DeletePartUseCase, GetPartUseCase, PART_NOT_FOUND } from '../src/index';
+
+function createRepository(parts: Part[]): PartRepository {
+  return {
+    save: async () => Result.ok(),
+    findById: async (id) => Result.ok(parts.find(p => p.getId().equals(id)) ?? null),
+    findByPartNumber: async () => Result.ok(null),
+    search: async () => Result.ok({ parts: [], total: 0 }),
+    facets: async () => Result.ok({ categories: [], statuses: [], priceBands: [] }),
+    suggest: async () => Result.ok([]),
+    delete: async (id: PartId) => {
+      parts.splice(parts.findIndex(p => p.getId().equals(id)), 1);
+      return Result.ok();
+    },
+    exists: async () => Result.ok(false)
+  };
+}
+
+describe('GetPartUseCase and DeletePartUseCase', () => {
+  const part = Part.create({
+    partNumber: new PartNumber('FIL-004'),
+    name: new PartName('Air Filter'),
+    price: new Price(24.99),
+    quantity: new Quantity(30),
+    status: PartStatus.ACTIVE,
+    category: new Category('Filters')
+  });
+
+  it('should return a part by id and fail once it is deleted', async () => {
+    const repository = createRepository([part]);
+    const id = part.getId().getValue();
+
+    expect((await new GetPartUseCase(repository).execute(id)).getValue()).toMatchObject({ id, partNumber: 'FIL-004' });
+    expect((await new DeletePartUseCase(repository).execute(id)).isSuccess()).toBe(true);
+    expect((await new GetPartUseCase(repository).execute(id)).getError()).toBe(PART_NOT_FOUND);
+  });
+
+  it('should not delete an unknown part', async () => {
+    const result = await new DeletePartUseCase(createRepository([])).execute('missing');
+    expect(result.getError()).toBe(PART_NOT_FOUND);
+    expect(result.getErrorCode()).toBe(ErrorCode.NOT_FOUND);
+  });
+
+  it('should reject a blank id', async () => {
+    const result = await new GetPartUseCase(createRepository([])).execute(' ');
+    expect(result.getError()).toBe('PartId cannot be empty');
+    expect(result.getErrorCode()).toBe(ErrorCode.VALIDATION);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartRepository,
+  PartSearchResult,
+  PriceBand,
+  SearchCriteria,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { SearchPartsUseCase, INVALID_CURSOR } from '../src/index';
+
+function createPart(partNumber: string): Part {
+  return Part.create({
+    partNumber: new PartNumber(partNumber),
+    name: new PartName(`Part ${partNumber}`),
+    price: new Price(10),
+    quantity: new Quantity(1),
+    status: PartStatus.ACTIVE,
+    category: new Category('Engine')
+  });
+}
+
+function createRepository(
+  search: (criteria: SearchCriteria) => Promise<Result<PartSearchResult>>,
+  facets: PartRepository['facets'] = async () => Result.ok({ categories: [], statuses: [], priceBands: [] })
+): PartRepository {
+  return {
+    save: async () => Result.ok(),
+    findById: async () => Result.ok(null),
+    findByPartNumber: async () => Result.ok(null),
+    search,
+    facets,
+    suggest: async () => Result.ok([]),
+    delete: async () => Result.ok(),
+    exists: async () => Result.ok(false)
+  };
+}
+
+describe('SearchPartsUseCase', () => {
+  it('should report the repository total rather than the page size', async () => {
+    const repository = createRepository(async () =>
+      Result.ok({ parts: [createPart('ENG-011'), createPart('ENG-012')], total: 12 })
+    );
+
+    const result = await new SearchPartsUseCase(repository).execute({ page: 2, limit: 10 });
+
+    expect(result.getValue()).toMatchObject({
+      total: 12,
+      page: 2,
+      limit: 10,
+      totalPages: 2
+    });
+    expect(result.getValue().parts).toHaveLength(2);
+  });
+
+  it('should apply default paging to the criteria', async () => {
+    let received: SearchCriteria | undefined;
+    const repository = createRepository(async criteria => {
+      received = criteria;
+      return Result.ok({ parts: [], total: 0 });
+    });
+
+    const result = await new SearchPartsUseCase(repository).execute({ name: 'brake' });
+
+    expect(received).toMatchObject({ name: 'brake', page: 1, limit: 10 });
+    expect(result.getValue().totalPages).toBe(0);
+  });
+
+  it('should pass sort options through with ascending as the default direction', async () => {
+    let received: SearchCriteria | undefined;
+    const repository = createRepository(async criteria => {
+      received = criteria;
+      return Result.ok({ parts: [], total: 0 });
+    });
+
+    await new SearchPartsUseCase(repository).execute({
+      sort: [{ field: 'price', direction: 'desc' }, { field: 'name' }]
+    });
+
+    expect(received!.sort).toEqual([
+      { field: 'price', direction: 'desc' },
+      { field: 'name', direction: 'asc' }
+    ]);
+  });
+
+  it('should pass the trimmed query through and attach scores to hits', async () => {
+    const part = createPart('BRK-002');
+    let received: SearchCriteria | undefined;
+    const repository = createRepository(async criteria => {
+      received = criteria;
+      return Result.ok({ parts: [part], total: 1, scores: new Map([[part.getId().getValue(), 2.5]]) });
+    });
+
+    const result = await new SearchPartsUseCase(repository).execute({ query: '  brake disc ' });
+
+    expect(received!.query).toBe('brake disc');
+    expect(result.getValue().parts[0]!.score).toBe(2.5);
+  });
+
+  it('should reject unknown sort fields', async () => {
+    const repository = createRepository(async () => Result.ok({ parts: [], total: 0 }));
+
+    const result = await new SearchPartsUseCase(repository).execute({ sort: [{ field: 'weight' }] });
+
+    expect(result.getError()).toBe('Invalid sort field: weight');
+  });
+
+  it('should only compute facets when asked to', async () => {
+    let facetCalls = 0;
+    const repository = createRepository(
+      async () => Result.ok({ parts: [], total: 0 }),
+      async () => {
+        facetCalls++;
+        return Result.ok({ categories: [], statuses: [], priceBands: [] });
+      }
+    );
+
+    const result = await new SearchPartsUseCase(repository).execute({});
+
+    expect(result.getValue().facets).toBeUndefined();
+    expect(facetCalls).toBe(0);
+  });
+
+  it('should return facets with price buckets built from the boundaries', async () => {
+    let receivedBands: PriceBand[] | undefined;
+    const repository = createRepository(
+      async () => Result.ok({ parts: [], total: 0 }),
+      async (_criteria, priceBands) => {
+        receivedBands = priceBands;
+        return Result.ok({
+          categories: [{ value: 'Brakes', count: 3 }],
+          statuses: [{ value: 'ACTIVE', count: 3 }],
+          priceBands: priceBands.map((band, index) => ({ ...band, count: index }))
+        });
+      }
+    );
+
+    const result = await new SearchPartsUseCase(repository).execute({
+      category: 'Brakes',
+      includeFacets: true,
+      priceBuckets: [100, 50]
+    });
+
+    expect(receivedBands).toEqual([{ min: undefined, max: 50 }, { min: 50, max: 100 }, { min: 100 }]);
+    expect(result.getValue().facets).toEqual({
+      categories: [{ value: 'Brakes', count: 3 }],
+      statuses: [
+        { value: 'ACTIVE', count: 3 },
+        { value: 'INACTIVE', count: 0 },
+        { value: 'DISCONTINUED', count: 0 }
+      ],
+      priceBuckets: [
+        { min: undefined, max: 50, count: 0 },
+        { min: 50, max: 100, count: 1 },
+        { min: 100, max: undefined, count: 2 }
+      ]
+    });
+  });
+
+  it('should hand out opaque cursors that round-trip to the repository', async () => {
+    const calls: SearchCriteria[] = [];
+    const repository = createRepository(async criteria => {
+      calls.push(criteria);
+      return Result.ok({
+        parts: [createPart('ENG-001')],
+        total: 3,
+        nextCursor: { direction: 'after', values: [10], id: 'part-1' }
+      });
+    });
+    const useCase = new SearchPartsUseCase(repository);
+    const sort = [{ field: 'price', direction: 'asc' as const }];
+
+    const first = await useCase.execute({ sort, limit: 1 });
+    const nextCursor = first.getValue().nextCursor!;
+    await useCase.execute({ sort, limit: 1, cursor: nextCursor });
+
+    expect(nextCursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(first.getValue().prevCursor).toBeUndefined();
+    expect(calls[1]!.cursor).toEqual({ direction: 'after', values: [10], id: 'part-1' });
+  });
+
+  it('should reject cursors that are malformed or from a different sort', async () => {
+    const repository = createRepository(async () => Result.ok({
+      parts: [],
+      total: 0,
+      prevCursor: { direction: 'before', values: [10], id: 'part-1' }
+    }));
+    const useCase = new SearchPartsUseCase(repository);
+    const { prevCursor } = (await useCase.execute({ sort: [{ field: 'price' }] })).getValue();
+
+    const malformed = await useCase.execute({ cursor: 'not-a-cursor' });
+    const otherSort = await useCase.execute({ sort: [{ field: 'name' }], cursor: prevCursor });
+
+    expect(malformed.getError()).toBe(INVALID_CURSOR);
+    expect(otherSort.getError()).toBe(INVALID_CURSOR);
+  });
+
+  it('should propagate repository failures', async () => {
+    const repository = createRepository(async () => Result.fail('connection refused'));
+
+    const result = await new SearchPartsUseCase(repository).execute({});
+
+    expect(result.isFailure()).toBe(true);
+    expect(result.getError()).toBe('connection refused');
+    expect(result.getErrorCode()).toBe(ErrorCode.INTERNAL);
+  });
+});
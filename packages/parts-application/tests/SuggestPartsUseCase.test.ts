@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { Result } from '@partsy/shared-utils';
+import { PartRepository, SuggestionCandidate } from '@partsy/parts-domain';
+import { SuggestPartsUseCase } from '../src/index';
+
+function createRepository(candidates: SuggestionCandidate[], onSuggest?: (prefix: string, limit: number) => void): PartRepository {
+  return {
+    save: async () => Result.ok(),
+    findById: async () => Result.ok(null),
+    findByPartNumber: async () => Result.ok(null),
+    search: async () => Result.ok({ parts: [], total: 0 }),
+    facets: async () => Result.ok({ categories: [], statuses: [], priceBands: [] }),
+    suggest: async (prefix, limit) => {
+      onSuggest?.(prefix, limit);
+      return Result.ok(candidates);
+    },
+    delete: async () => Result.ok(),
+    exists: async () => Result.ok(false)
+  };
+}
+
+describe('SuggestPartsUseCase', () => {
+  it('should highlight the start of every matched word', async () => {
+    const repository = createRepository([{ field: 'name', value: 'Brake Disc Set', partId: 'p1' }]);
+
+    const result = await new SuggestPartsUseCase(repository).execute({ query: 'disc br' });
+
+    expect(result.getValue().suggestions).toEqual([{
+      text: 'Brake Disc Set',
+      field: 'name',
+      partId: 'p1',
+      highlights: [{ start: 0, end: 2 }, { start: 6, end: 10 }]
+    }]);
+  });
+
+  it('should highlight part numbers across separators', async () => {
+    const repository = createRepository([{ field: 'partNumber', value: 'BRK-002', partId: 'p1' }]);
+
+    const result = await new SuggestPartsUseCase(repository).execute({ query: 'brk0' });
+
+    expect(result.getValue().suggestions[0]!.highlights).toEqual([{ start: 0, end: 3 }, { start: 4, end: 5 }]);
+  });
+
+  it('should drop candidates that do not actually match and duplicates', async () => {
+    const repository = createRepository([
+      { field: 'name', value: 'Cobrake Adapter', partId: 'p1' },
+      { field: 'category', value: 'Brakes' },
+      { field: 'category', value: 'brakes' }
+    ]);
+
+    const result = await new SuggestPartsUseCase(repository).execute({ query: 'brake' });
+
+    expect(result.getValue().suggestions.map(s => s.text)).toEqual(['Brakes']);
+  });
+
+  it('should rank whole-text completions first, then by field and length', async () => {
+    const repository = createRepository([
+      { field: 'category', value: 'Brakes' },
+      { field: 'name', value: 'Rear Brake Pads', partId: 'p1' },
+      { field: 'name', value: 'Brake Disc Set', partId: 'p2' },
+      { field: 'name', value: 'Brake Pads', partId: 'p3' },
+      { field: 'partNumber', value: 'BR-100', partId: 'p4' }
+    ]);
+
+    const result = await new SuggestPartsUseCase(repository).execute({ query: 'br', limit: 4 });
+
+    expect(result.getValue().suggestions.map(s => s.text)).toEqual(['Brake Pads', 'Brake Disc Set', 'BR-100', 'Brakes']);
+  });
+
+  it('should pass the trimmed query and limit to the repository', async () => {
+    let received: [string, number] | undefined;
+    const repository = createRepository([], (prefix, limit) => { received = [prefix, limit]; });
+
+    await new SuggestPartsUseCase(repository).execute({ query: '  eng ', limit: 5 });
+
+    expect(received).toEqual(['eng', 5]);
+  });
+
+  it('should return nothing for a blank query without hitting the repository', async () => {
+    let called = false;
+    const repository = createRepository([], () => { called = true; });
+
+    const result = await new SuggestPartsUseCase(repository).execute({ query: '   ' });
+
+    expect(result.getValue().suggestions).toEqual([]);
+    expect(called).toBe(false);
+  });
+
+  it('should reject out-of-range limits', async () => {
+    const result = await new SuggestPartsUseCase(createRepository([])).execute({ query: 'br', limit: 100 });
+
+    expect(result.isFailure()).toBe(true);
+    expect(result.getError()).toBe('Limit must be an integer between 1 and 25');
+  });
+});
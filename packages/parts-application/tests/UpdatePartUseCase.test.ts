@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartRepository,
+  PartUpdatedEvent,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { UpdatePartUseCase, PART_NOT_FOUND } from '../src/index';
+
+function createPart(): Part {
+  const part = Part.create({
+    partNumber: new PartNumber('BRK-002'),
+    name: new PartName('Brake Disc Set'),
+    description: 'Vented discs',
+    price: new Price(89.99),
+    quantity: new Quantity(4),
+    status: PartStatus.ACTIVE,
+    category: new Category('Brakes')
+  });
+  part.clearDomainEvents();
+  return part;
+}
+
+function createRepository(part: Part | null, saved: Part[] = []): PartRepository {
+  return {
+    save: async (p) => {
+      saved.push(p);
+      return Result.ok();
+    },
+    findById: async () => Result.ok(part),
+    findByPartNumber: async () => Result.ok(null),
+    search: async () => Result.ok({ parts: [], total: 0 }),
+    facets: async () => Result.ok({ categories: [], statuses: [], priceBands: [] }),
+    suggest: async () => Result.ok([]),
+    delete: async () => Result.ok(),
+    exists: async () => Result.ok(false)
+  };
+}
+
+describe('UpdatePartUseCase', () => {
+  it('should apply changed fields through the business methods and save', async () => {
+    const part = createPart();
+    const saved: Part[] = [];
+
+    const result = await new UpdatePartUseCase(createRepository(part, saved)).execute(part.getId().getValue(), {
+      name: 'Brake Disc Pair',
+      price: 79.5,
+      category: 'Brakes'
+    });
+
+    expect(result.getValue()).toMatchObject({ name: 'Brake Disc Pair', price: 79.5, category: 'Brakes', quantity: 4 });
+    expect(saved).toEqual([part]);
+    expect(part.getDomainEvents().map(e => (e as PartUpdatedEvent).changes)).toEqual([
+      { name: { from: 'Brake Disc Set', to: 'Brake Disc Pair' } },
+      { price: { from: 89.99, to: 79.5 } }
+    ]);
+  });
+
+  it('should update description and quantity', async () => {
+    const part = createPart();
+
+    const result = await new UpdatePartUseCase(createRepository(part)).execute(part.getId().getValue(), {
+      description: 'Drilled and slotted',
+      quantity: 0
+    });
+
+    expect(result.getValue()).toMatchObject({ description: 'Drilled and slotted', quantity: 0 });
+    expect(part.getDomainEvents()).toHaveLength(2);
+  });
+
+  it('should leave the part untouched when any field is invalid', async () => {
+    const part = createPart();
+    const saved: Part[] = [];
+
+    const result = await new UpdatePartUseCase(createRepository(part, saved)).execute(part.getId().getValue(), {
+      name: 'Renamed',
+      price: -1
+    });
+
+    expect(result.getError()).toBe('Price cannot be negative');
+    expect(part.getName().getValue()).toBe('Brake Disc Set');
+    expect(part.getDomainEvents()).toHaveLength(0);
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should fail when the part does not exist', async () => {
+    const result = await new UpdatePartUseCase(createRepository(null)).execute('missing', { price: 10 });
+    expect(result.getError()).toBe(PART_NOT_FOUND);
+  });
+});
@@ -110,65 +110,37 @@ export class Part extends AggregateRoot<PartId> {
   public updatePrice(newPrice: Price): void {
     const oldPrice = this.props.price.getValue();
     this.props.price = newPrice;
-    this.props.updatedAt = new Date();
-
-    const event: PartUpdatedEvent = {
-      eventId: crypto.randomUUID(),
-      eventType: 'PartUpdated',
-      occurredOn: new Date(),
-      partId: this.getId().getValue(),
-      changes: { price: { from: oldPrice, to: newPrice.getValue() } }
-    };
-
-    this.addDomainEvent(event);
+    this.recordUpdate({ price: { from: oldPrice, to: newPrice.getValue() } });
   }
 
   public updateQuantity(newQuantity: Quantity): void {
     const oldQuantity = this.props.quantity.getValue();
     this.props.quantity = newQuantity;
-    this.props.updatedAt = new Date();
-
-    const event: PartUpdatedEvent = {
-      eventId: crypto.randomUUID(),
-      eventType: 'PartUpdated',
-      occurredOn: new Date(),
-      partId: this.getId().getValue(),
-      changes: { quantity: { from: oldQuantity, to: newQuantity.getValue() } }
-    };
-
-    this.addDomainEvent(event);
+    this.recordUpdate({ quantity: { from: oldQuantity, to: newQuantity.getValue() } });
   }
 
   public changeStatus(newStatus: PartStatus): void {
     const oldStatus = this.props.status;
     this.props.status = newStatus;
-    this.props.updatedAt = new Date();
-
-    const event: PartUpdatedEvent = {
-      eventId: crypto.randomUUID(),
-      eventType: 'PartUpdated',
-      occurredOn: new Date(),
-      partId: this.getId().getValue(),
-      changes: { status: { from: oldStatus, to: newStatus } }
-    };
-
-    this.addDomainEvent(event);
+    this.recordUpdate({ status: { from: oldStatus, to: newStatus } });
   }
 
   public updateDescription(description: string): void {
     const oldDescription = this.props.description;
     this.props.description = description;
-    this.props.updatedAt = new Date();
+    this.recordUpdate({ description: { from: oldDescription, to: description } });
+  }
 
-    const event: PartUpdatedEvent = {
-      eventId: crypto.randomUUID(),
-      eventType: 'PartUpdated',
-      occurredOn: new Date(),
-      partId: this.getId().getValue(),
-      changes: { description: { from: oldDescription, to: description } }
-    };
+  public updateName(newName: PartName): void {
+    const oldName = this.props.name.getValue();
+    this.props.name = newName;
+    this.recordUpdate({ name: { from: oldName, to: newName.getValue() } });
+  }
 
-    this.addDomainEvent(event);
+  public updateCategory(newCategory: Category): void {
+    const oldCategory = this.props.category.getValue();
+    this.props.category = newCategory;
+    this.recordUpdate({ category: { from: oldCategory, to: newCategory.getValue() } });
   }
 
   public isActive(): boolean {
@@ -178,4 +150,20 @@ export class Part extends AggregateRoot<PartId> {
   public isInStock(): boolean {
     return this.props.quantity.getValue() > 0;
   }
+
+  // Stamps the change and records it as a PartUpdated event
+  private recordUpdate(changes: PartUpdatedEvent['changes']): void {
+    const now = new Date();
+    this.props.updatedAt = now;
+
+    const event: PartUpdatedEvent = {
+      eventId: crypto.randomUUID(),
+      eventType: 'PartUpdated',
+      occurredOn: now,
+      partId: this.getId().getValue(),
+      changes
+    };
+
+    this.addDomainEvent(event);
+  }
 }
@@ -2,7 +2,19 @@ import { Result } from '@partsy/shared-utils';
 import { Part } from '../entities/Part.js';
 import { PartId, PartNumber } from '../value-objects/index.js';
 
+export const SORT_FIELDS = ['name', 'partNumber', 'price', 'quantity', 'createdAt', 'updatedAt'] as const;
+
+export type SortField = typeof SORT_FIELDS[number];
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOption {
+  field: SortField;
+  direction: SortDirection;
+}
+
 export interface SearchCriteria {
+  // Free text matched against name, description, part number and category
+  query?: string;
   name?: string;
   partNumber?: string;
   category?: string;
@@ -10,15 +22,82 @@ export interface SearchCriteria {
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
+  // Tolerate typos in query, name and part number, and ignore part number separators
+  fuzzy?: boolean;
+  // Applied in order; ties are always broken by id so paging is stable
+  sort?: SortOption[];
   page?: number;
   limit?: number;
+  // Keyset paging: the page next to this position; `page` is ignored when set
+  cursor?: SearchCursor;
+}
+
+/**
+ * Position of a part in sorted results. Unlike a page number it stays put
+ * when parts are inserted or deleted ahead of it.
+ */
+export interface SearchCursor {
+  // Whether the page holds the parts after the position or the ones before it
+  direction: 'after' | 'before';
+  // The part's sort key values in sort order; its relevance score when ranking a query
+  values: (string | number)[];
+  id: string;
+}
+
+// One page of matches plus the number of parts matching the criteria across all pages
+export interface PartSearchResult {
+  parts: Part[];
+  total: number;
+  // Relevance by part id, for backends that rank free-text queries
+  scores?: Map<string, number>;
+  // Positions of the neighbouring pages, for backends with keyset paging; absent at either end
+  nextCursor?: SearchCursor;
+  prevCursor?: SearchCursor;
+}
+
+// Half-open price interval [min, max); an omitted bound is unbounded
+export interface PriceBand {
+  min?: number;
+  max?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceBandCount extends PriceBand {
+  count: number;
+}
+
+/**
+ * Match counts per facet value. Each facet is computed over the criteria
+ * minus its own filter, so a UI can offer the alternatives to a selection.
+ */
+export interface PartFacets {
+  categories: FacetCount[];
+  statuses: FacetCount[];
+  priceBands: PriceBandCount[];
+}
+
+export type SuggestionField = 'name' | 'partNumber' | 'category';
+
+// A value that may complete a typed prefix; partId is absent for category values
+export interface SuggestionCandidate {
+  field: SuggestionField;
+  value: string;
+  partId?: string;
 }
 
+// Failures carry ErrorCode.INTERNAL when the store itself failed, e.g. it is unreachable
 export interface PartRepository {
   save(part: Part): Promise<Result<void>>;
   findById(id: PartId): Promise<Result<Part | null>>;
   findByPartNumber(partNumber: PartNumber): Promise<Result<Part | null>>;
-  search(criteria: SearchCriteria): Promise<Result<Part[]>>;
+  search(criteria: SearchCriteria): Promise<Result<PartSearchResult>>;
+  facets(criteria: SearchCriteria, priceBands: PriceBand[]): Promise<Result<PartFacets>>;
+  // Up to `limit` candidates per field whose words start with the prefix words
+  suggest(prefix: string, limit: number): Promise<Result<SuggestionCandidate[]>>;
   delete(id: PartId): Promise<Result<void>>;
   exists(partNumber: PartNumber): Promise<Result<boolean>>;
 }
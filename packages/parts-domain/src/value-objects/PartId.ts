@@ -23,6 +23,18 @@ export class PartNumber extends ValueObject<string> {
     }
     super(value.trim().toUpperCase());
   }
+
+  /**
+   * Canonical form for matching typed input: separators and whitespace
+   * stripped, uppercased, so "brk 002", "BRK-002" and "BRK002" compare equal
+   */
+  public static normalize(value: string): string {
+    return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  }
+
+  public getNormalizedValue(): string {
+    return PartNumber.normalize(this.value);
+  }
 }
 
 export class PartName extends ValueObject<string> {
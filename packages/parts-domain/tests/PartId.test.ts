@@ -44,6 +44,12 @@ describe('PartNumber', () => {
     const longString = 'a'.repeat(51);
     expect(() => new PartNumber(longString)).toThrow('Part number cannot exceed 50 characters');
   });
+
+  it('should normalize separators and case for matching', () => {
+    expect(PartNumber.normalize('brk-002')).toBe('BRK002');
+    expect(PartNumber.normalize(' brk 0.0/2_ ')).toBe('BRK002');
+    expect(new PartNumber('brk-002').getNormalizedValue()).toBe('BRK002');
+  });
 });
 
 describe('PartName', () => {
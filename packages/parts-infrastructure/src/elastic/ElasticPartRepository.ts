@@ -0,0 +1,241 @@
+import type { Client, estypes } from '@elastic/elasticsearch';
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartRepository,
+  PartId,
+  PartNumber,
+  SearchCriteria,
+  PartSearchResult,
+  PartFacets,
+  PriceBand,
+  SuggestionCandidate,
+  FacetCount,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { PARTS_INDEX } from './mapping.js';
+import {
+  buildPartsSearchRequest,
+  buildPartsFacetAggregations,
+  buildPartsSuggestRequests
+} from './ElasticQueryBuilder.js';
+
+// Shape of a part document in the parts index
+export interface PartDocument {
+  id: string;
+  partNumber: string;
+  name: string;
+  description?: string;
+  price: number;
+  quantity: number;
+  status: string;
+  category: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FacetAggregation {
+  values: { buckets: { key: string | number; doc_count: number }[] };
+}
+
+export interface ElasticPartRepositoryOptions {
+  index?: string;
+  // Refresh policy for writes; 'wait_for' makes them visible to the next search
+  refresh?: estypes.Refresh;
+}
+
+// Search-optimized implementation backed by Elasticsearch
+export class ElasticPartRepository implements PartRepository {
+  private readonly index: string;
+  private readonly refresh: estypes.Refresh;
+
+  constructor(
+    private readonly client: Client,
+    options: ElasticPartRepositoryOptions = {}
+  ) {
+    this.index = options.index ?? PARTS_INDEX;
+    this.refresh = options.refresh ?? false;
+  }
+
+  async save(part: Part): Promise<Result<void>> {
+    try {
+      await this.client.index<PartDocument>({
+        index: this.index,
+        id: part.getId().getValue(),
+        document: this.toDocument(part),
+        refresh: this.refresh
+      });
+      return Result.ok();
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to save part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async findById(id: PartId): Promise<Result<Part | null>> {
+    try {
+      const response = await this.client.get<PartDocument>(
+        { index: this.index, id: id.getValue() },
+        { ignore: [404] }
+      );
+      return Result.ok(response.found && response._source ? this.toDomain(response._source) : null);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async findByPartNumber(partNumber: PartNumber): Promise<Result<Part | null>> {
+    try {
+      const response = await this.client.search<PartDocument>({
+        index: this.index,
+        query: { term: { partNumber: partNumber.getValue() } },
+        size: 1
+      });
+      const source = response.hits.hits[0]?._source;
+      return Result.ok(source ? this.toDomain(source) : null);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async search(criteria: SearchCriteria): Promise<Result<PartSearchResult>> {
+    // Offset paging only; never hand back a page the cursor did not ask for
+    if (criteria.cursor) {
+      return Result.fail('Cursor paging is not supported by this repository', ErrorCode.VALIDATION);
+    }
+
+    try {
+      const response = await this.client.search<PartDocument>({
+        index: this.index,
+        ...buildPartsSearchRequest(criteria),
+        track_total_hits: true
+      });
+
+      const hits = response.hits.hits.filter(
+        (hit): hit is typeof hit & { _source: PartDocument } => hit._source !== undefined
+      );
+      const parts = hits.map(hit => this.toDomain(hit._source));
+
+      const total = typeof response.hits.total === 'number'
+        ? response.hits.total
+        : response.hits.total?.value ?? parts.length;
+
+      // _score is null when sorting on fields only
+      const scores = criteria.query
+        ? new Map(hits.map(hit => [hit._source.id, hit._score ?? 0]))
+        : undefined;
+
+      return Result.ok({ parts, total, ...(scores && { scores }) });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to search parts', ErrorCode.INTERNAL);
+    }
+  }
+
+  async facets(criteria: SearchCriteria, priceBands: PriceBand[]): Promise<Result<PartFacets>> {
+    try {
+      const response = await this.client.search<PartDocument, Record<string, FacetAggregation>>({
+        index: this.index,
+        size: 0,
+        aggs: buildPartsFacetAggregations(criteria, priceBands)
+      });
+
+      const aggregations = response.aggregations;
+      const toCounts = (aggregation?: FacetAggregation): FacetCount[] =>
+        (aggregation?.values.buckets ?? []).map(bucket => ({ value: String(bucket.key), count: bucket.doc_count }));
+      const bandBuckets = aggregations?.priceBands?.values.buckets ?? [];
+
+      return Result.ok({
+        categories: toCounts(aggregations?.categories),
+        statuses: toCounts(aggregations?.statuses),
+        priceBands: priceBands.map((band, index) => ({
+          ...band,
+          count: bandBuckets.find(bucket => bucket.key === String(index))?.doc_count ?? 0
+        }))
+      });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to compute facets', ErrorCode.INTERNAL);
+    }
+  }
+
+  async suggest(prefix: string, limit: number): Promise<Result<SuggestionCandidate[]>> {
+    try {
+      const requests = buildPartsSuggestRequests(prefix, limit);
+      const [names, partNumbers, categories] = await Promise.all([
+        this.client.search<PartDocument>({ index: this.index, ...requests.names }),
+        requests.partNumbers
+          ? this.client.search<PartDocument>({ index: this.index, ...requests.partNumbers })
+          : null,
+        this.client.search<PartDocument, Record<string, FacetAggregation['values']>>({ index: this.index, ...requests.categories })
+      ]);
+
+      const sources = (response: estypes.SearchResponse<PartDocument> | null) => (response?.hits.hits ?? [])
+        .map(hit => hit._source)
+        .filter((source): source is PartDocument => source !== undefined);
+
+      return Result.ok([
+        ...sources(names).map(source => ({ field: 'name' as const, value: source.name, partId: source.id })),
+        ...sources(partNumbers).map(source => ({ field: 'partNumber' as const, value: source.partNumber, partId: source.id })),
+        ...(categories.aggregations?.values?.buckets ?? [])
+          .map(bucket => ({ field: 'category' as const, value: String(bucket.key) }))
+      ]);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to suggest parts', ErrorCode.INTERNAL);
+    }
+  }
+
+  async delete(id: PartId): Promise<Result<void>> {
+    try {
+      await this.client.delete(
+        { index: this.index, id: id.getValue(), refresh: this.refresh },
+        { ignore: [404] }
+      );
+      return Result.ok();
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to delete part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async exists(partNumber: PartNumber): Promise<Result<boolean>> {
+    try {
+      const response = await this.client.count({
+        index: this.index,
+        query: { term: { partNumber: partNumber.getValue() } }
+      });
+      return Result.ok(response.count > 0);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to check existence', ErrorCode.INTERNAL);
+    }
+  }
+
+  private toDocument(part: Part): PartDocument {
+    return {
+      id: part.getId().getValue(),
+      partNumber: part.getPartNumber().getValue(),
+      name: part.getName().getValue(),
+      description: part.getDescription(),
+      price: part.getPrice().getValue(),
+      quantity: part.getQuantity().getValue(),
+      status: part.getStatus(),
+      category: part.getCategory().getValue(),
+      createdAt: part.getCreatedAt().toISOString(),
+      updatedAt: part.getUpdatedAt().toISOString()
+    };
+  }
+
+  private toDomain(document: PartDocument): Part {
+    return Part.fromPersistence(new PartId(document.id), {
+      partNumber: new PartNumber(document.partNumber),
+      name: new PartName(document.name),
+      description: document.description,
+      price: new Price(document.price),
+      quantity: new Quantity(document.quantity),
+      status: document.status as PartStatus,
+      category: new Category(document.category),
+      createdAt: new Date(document.createdAt),
+      updatedAt: new Date(document.updatedAt)
+    });
+  }
+}
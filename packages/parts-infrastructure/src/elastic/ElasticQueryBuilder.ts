@@ -0,0 +1,182 @@
+import type { estypes } from '@elastic/elasticsearch';
+import { SearchCriteria, SortField, PriceBand, PartNumber } from '@partsy/parts-domain';
+import { DEFAULT_PART_FIELD_BOOSTS } from '../search/PartTextFields.js';
+
+const SORT_FIELDS: Record<SortField, string> = {
+  name: 'name.keyword',
+  partNumber: 'partNumber',
+  price: 'price',
+  quantity: 'quantity',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+function escapeWildcard(value: string): string {
+  return value.replace(/[\\*?]/g, match => `\\${match}`);
+}
+
+/**
+ * Translates SearchCriteria into a bool query. Full-text clauses go in `must`
+ * so they contribute to scoring; everything else is a non-scoring `filter`.
+ */
+export function buildPartsQuery(criteria: SearchCriteria): estypes.QueryDslQueryContainer {
+  const must: estypes.QueryDslQueryContainer[] = [];
+  const filter: estypes.QueryDslQueryContainer[] = [];
+
+  if (criteria.query) {
+    must.push({
+      multi_match: {
+        query: criteria.query,
+        fields: Object.entries(DEFAULT_PART_FIELD_BOOSTS).map(([field, boost]) => `${field}^${boost}`),
+        ...(criteria.fuzzy && { fuzziness: 'AUTO' })
+      }
+    });
+  }
+
+  if (criteria.name) {
+    must.push({
+      match: { name: { query: criteria.name, operator: 'and', ...(criteria.fuzzy && { fuzziness: 'AUTO' }) } }
+    });
+  }
+
+  if (criteria.partNumber) {
+    // The part_number_normalizer produces the same form, so patterns line up with the indexed terms
+    const normalized = PartNumber.normalize(criteria.partNumber);
+    const wildcard: estypes.QueryDslQueryContainer = {
+      wildcard: { 'partNumber.normalized': { value: `*${normalized}*` } }
+    };
+
+    // Fuzzy mode also accepts whole part numbers a couple of typos away
+    filter.push(criteria.fuzzy
+      ? {
+        bool: {
+          should: [wildcard, { fuzzy: { 'partNumber.normalized': { value: normalized, fuzziness: 'AUTO' } } }],
+          minimum_should_match: 1
+        }
+      }
+      : wildcard);
+  }
+
+  if (criteria.category) {
+    // A substring match, like the other repositories
+    filter.push({ wildcard: { category: { value: `*${escapeWildcard(criteria.category)}*`, case_insensitive: true } } });
+  }
+
+  if (criteria.status) {
+    filter.push({ term: { status: criteria.status } });
+  }
+
+  if (criteria.minPrice !== undefined || criteria.maxPrice !== undefined) {
+    filter.push({ range: { price: { gte: criteria.minPrice, lte: criteria.maxPrice } } });
+  }
+
+  if (criteria.inStock) {
+    filter.push({ range: { quantity: { gt: 0 } } });
+  }
+
+  if (must.length === 0 && filter.length === 0) {
+    return { match_all: {} };
+  }
+
+  return { bool: { must, filter } };
+}
+
+export function buildPartsSearchRequest(criteria: SearchCriteria): {
+  query: estypes.QueryDslQueryContainer;
+  sort: estypes.SortCombinations[];
+  from: number;
+  size: number;
+} {
+  const page = criteria.page || 1;
+  const limit = criteria.limit || 10;
+
+  return {
+    query: buildPartsQuery(criteria),
+    sort: buildPartsSort(criteria),
+    from: (page - 1) * limit,
+    size: limit
+  };
+}
+
+export function buildPartsSort(criteria: SearchCriteria): estypes.SortCombinations[] {
+  if (criteria.sort?.length) {
+    return [
+      ...criteria.sort.map(({ field, direction }) => ({ [SORT_FIELDS[field]]: direction })),
+      { id: 'asc' }
+    ];
+  }
+
+  // Rank by relevance when there is a full-text clause, otherwise keep insertion order
+  return criteria.query || criteria.name
+    ? ['_score', { createdAt: 'asc' }, { id: 'asc' }]
+    : [{ createdAt: 'asc' }, { id: 'asc' }];
+}
+
+
+/**
+ * Each facet is a filter aggregation over the criteria minus its own field,
+ * wrapping the terms/range bucket aggregation under `values`.
+ */
+export function buildPartsFacetAggregations(
+  criteria: SearchCriteria,
+  priceBands: PriceBand[]
+): Record<string, estypes.AggregationsAggregationContainer> {
+  return {
+    categories: {
+      filter: buildPartsQuery({ ...criteria, category: undefined }),
+      aggs: { values: { terms: { field: 'category', size: 100 } } }
+    },
+    statuses: {
+      filter: buildPartsQuery({ ...criteria, status: undefined }),
+      aggs: { values: { terms: { field: 'status', size: 10 } } }
+    },
+    priceBands: {
+      filter: buildPartsQuery({ ...criteria, minPrice: undefined, maxPrice: undefined }),
+      aggs: {
+        values: {
+          range: {
+            field: 'price',
+            ranges: priceBands.map((band, index) => ({ key: String(index), from: band.min, to: band.max }))
+          }
+        }
+      }
+    }
+  };
+}
+
+export interface PartsSuggestRequests {
+  names: estypes.SearchRequest;
+  partNumbers: estypes.SearchRequest | null;
+  categories: estypes.SearchRequest;
+}
+
+/**
+ * One request per suggestion field: a bool prefix match on the analyzed name,
+ * a prefix on the normalized part number and a terms aggregation of
+ * categories starting with the prefix.
+ */
+export function buildPartsSuggestRequests(prefix: string, limit: number): PartsSuggestRequests {
+  const normalized = PartNumber.normalize(prefix);
+
+  return {
+    names: {
+      size: limit,
+      _source: ['id', 'name'],
+      query: { match_bool_prefix: { name: { query: prefix, operator: 'and' } } },
+      sort: [{ 'name.keyword': 'asc' }]
+    },
+    partNumbers: normalized
+      ? {
+        size: limit,
+        _source: ['id', 'partNumber'],
+        query: { prefix: { 'partNumber.normalized': { value: normalized } } },
+        sort: [{ partNumber: 'asc' }]
+      }
+      : null,
+    categories: {
+      size: 0,
+      query: { prefix: { category: { value: prefix, case_insensitive: true } } },
+      aggs: { values: { terms: { field: 'category', size: limit, order: { _key: 'asc' } } } }
+    }
+  };
+}
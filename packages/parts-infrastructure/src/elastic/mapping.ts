@@ -0,0 +1,71 @@
+import type { Client, estypes } from '@elastic/elasticsearch';
+
+export const PARTS_INDEX = 'parts';
+
+// Same canonical form as PartNumber.normalize, so "brk-002", "BRK 002" and "BRK002"
+// index identically
+export const partsIndexSettings: estypes.IndicesIndexSettings = {
+  analysis: {
+    char_filter: {
+      part_number_separators: {
+        type: 'pattern_replace',
+        pattern: '[^A-Za-z0-9]',
+        replacement: ''
+      }
+    },
+    normalizer: {
+      part_number_normalizer: {
+        type: 'custom',
+        char_filter: ['part_number_separators'],
+        filter: ['uppercase']
+      }
+    }
+  }
+};
+
+export const partsIndexMappings: estypes.MappingTypeMapping = {
+  dynamic: 'strict',
+  properties: {
+    id: { type: 'keyword' },
+    partNumber: {
+      type: 'keyword',
+      fields: {
+        normalized: { type: 'keyword', normalizer: 'part_number_normalizer' }
+      }
+    },
+    name: {
+      type: 'text',
+      analyzer: 'standard',
+      fields: {
+        keyword: { type: 'keyword', ignore_above: 256 }
+      }
+    },
+    description: { type: 'text', analyzer: 'standard' },
+    price: { type: 'scaled_float', scaling_factor: 100 },
+    quantity: { type: 'integer' },
+    status: { type: 'keyword' },
+    category: { type: 'keyword' },
+    createdAt: { type: 'date' },
+    updatedAt: { type: 'date' }
+  }
+};
+
+/**
+ * Installs an index template for `<index>*` and creates the index if it is missing.
+ * Safe to call on every start-up.
+ */
+export async function ensurePartsIndex(client: Client, index: string = PARTS_INDEX): Promise<void> {
+  await client.indices.putIndexTemplate({
+    name: `${index}-template`,
+    index_patterns: [`${index}*`],
+    template: {
+      settings: partsIndexSettings,
+      mappings: partsIndexMappings
+    }
+  });
+
+  const exists = await client.indices.exists({ index });
+  if (!exists) {
+    await client.indices.create({ index });
+  }
+}
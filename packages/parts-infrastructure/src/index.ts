@@ -1 +1,7 @@
 export * from './repositories/InMemoryPartRepository.js';
+export * from './postgres/KnexPartRepository.js';
+export * from './postgres/migrations/index.js';
+export * from './elastic/ElasticPartRepository.js';
+export * from './elastic/ElasticQueryBuilder.js';
+export * from './elastic/mapping.js';
+export * from './search/index.js';
@@ -0,0 +1,351 @@
+import type { Knex } from 'knex';
+import { ErrorCode, Result } from '@partsy/shared-utils';
+import {
+  Part,
+  PartRepository,
+  PartId,
+  PartNumber,
+  SearchCriteria,
+  PartSearchResult,
+  PartFacets,
+  PriceBand,
+  SuggestionCandidate,
+  FacetCount,
+  SortField,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { PARTS_TABLE } from './migrations/index.js';
+
+// Shape of a row in the parts table
+export interface PartRow {
+  id: string;
+  part_number: string;
+  name: string;
+  description: string | null;
+  price: string | number;
+  quantity: number;
+  status: string;
+  category: string;
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+const SORT_COLUMNS: Record<SortField, string> = {
+  name: 'name',
+  partNumber: 'part_number',
+  price: 'price',
+  quantity: 'quantity',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+};
+
+const TEXT_COLUMNS = ['name', 'description', 'part_number', 'category'];
+
+// PostgreSQL implementation backed by a Knex instance.
+// SearchCriteria.fuzzy is not supported and falls back to exact matching.
+export class KnexPartRepository implements PartRepository {
+  constructor(
+    private readonly knex: Knex,
+    private readonly tableName: string = PARTS_TABLE
+  ) {}
+
+  async save(part: Part): Promise<Result<void>> {
+    try {
+      await this.knex(this.tableName)
+        .insert(this.toRow(part))
+        .onConflict('id')
+        .merge([
+          'part_number',
+          'name',
+          'description',
+          'price',
+          'quantity',
+          'status',
+          'category',
+          'updated_at'
+        ]);
+      return Result.ok();
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to save part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async findById(id: PartId): Promise<Result<Part | null>> {
+    try {
+      const row = await this.knex<PartRow>(this.tableName)
+        .where({ id: id.getValue() })
+        .first();
+      return Result.ok(row ? this.toDomain(row) : null);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async findByPartNumber(partNumber: PartNumber): Promise<Result<Part | null>> {
+    try {
+      const row = await this.knex<PartRow>(this.tableName)
+        .where({ part_number: partNumber.getValue() })
+        .first();
+      return Result.ok(row ? this.toDomain(row) : null);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async search(criteria: SearchCriteria): Promise<Result<PartSearchResult>> {
+    // Offset paging only; never hand back a page the cursor did not ask for
+    if (criteria.cursor) {
+      return Result.fail('Cursor paging is not supported by this repository', ErrorCode.VALIDATION);
+    }
+
+    try {
+      const page = criteria.page || 1;
+      const limit = criteria.limit || 10;
+
+      const [rows, countRows] = await Promise.all([
+        this.applyFilters(this.knex<PartRow>(this.tableName), criteria)
+          .orderBy(this.buildOrderBy(criteria))
+          .limit(limit)
+          .offset((page - 1) * limit),
+        this.applyFilters(this.knex<PartRow>(this.tableName), criteria)
+          .count<{ count: string | number }[]>({ count: '*' })
+      ]);
+
+      return Result.ok({
+        parts: (rows as PartRow[]).map(row => this.toDomain(row)),
+        // count(*) is a bigint, which pg returns as a string
+        total: Number(countRows[0]?.count ?? 0)
+      });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to search parts', ErrorCode.INTERNAL);
+    }
+  }
+
+  async facets(criteria: SearchCriteria, priceBands: PriceBand[]): Promise<Result<PartFacets>> {
+    try {
+      const [categories, statuses, priceBandCounts] = await Promise.all([
+        this.countByColumn('category', { ...criteria, category: undefined }),
+        this.countByColumn('status', { ...criteria, status: undefined }),
+        this.countPriceBands({ ...criteria, minPrice: undefined, maxPrice: undefined }, priceBands)
+      ]);
+
+      return Result.ok({
+        categories,
+        statuses,
+        priceBands: priceBands.map((band, index) => ({ ...band, count: priceBandCounts[index] ?? 0 }))
+      });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to compute facets', ErrorCode.INTERNAL);
+    }
+  }
+
+  // Candidates may over-match; callers are expected to re-check them against the prefix
+  async suggest(prefix: string, limit: number): Promise<Result<SuggestionCandidate[]>> {
+    try {
+      const words = prefix.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      const partNumberChars = PartNumber.normalize(prefix).split('');
+      if (words.length === 0) {
+        return Result.ok([]);
+      }
+
+      // Each word must start the column value or follow a space
+      const startsWithWords = (column: string) => (builder: Knex.QueryBuilder) => {
+        for (const word of words) {
+          const escaped = this.escapeLike(word);
+          builder.where(inner => inner.whereILike(column, `${escaped}%`).orWhereILike(column, `% ${escaped}%`));
+        }
+      };
+
+      const [names, partNumbers, categories] = await Promise.all([
+        this.knex<PartRow>(this.tableName)
+          .select('id', 'name')
+          .where(startsWithWords('name'))
+          .orderBy('name')
+          .limit(limit),
+        // No portable way to strip separators in SQL, so allow anything between the typed characters
+        partNumberChars.length === 0
+          ? []
+          : this.knex<PartRow>(this.tableName)
+            .select('id', 'part_number')
+            .whereILike('part_number', `${partNumberChars.map(char => this.escapeLike(char)).join('%')}%`)
+            .orderBy('part_number')
+            .limit(limit),
+        this.knex<PartRow>(this.tableName)
+          .distinct('category')
+          .where(startsWithWords('category'))
+          .orderBy('category')
+          .limit(limit)
+      ]);
+
+      return Result.ok([
+        ...names.map(row => ({ field: 'name' as const, value: row.name, partId: row.id })),
+        ...partNumbers.map(row => ({ field: 'partNumber' as const, value: row.part_number, partId: row.id })),
+        ...categories.map(row => ({ field: 'category' as const, value: row.category }))
+      ]);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to suggest parts', ErrorCode.INTERNAL);
+    }
+  }
+
+  async delete(id: PartId): Promise<Result<void>> {
+    try {
+      await this.knex(this.tableName).where({ id: id.getValue() }).delete();
+      return Result.ok();
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to delete part', ErrorCode.INTERNAL);
+    }
+  }
+
+  async exists(partNumber: PartNumber): Promise<Result<boolean>> {
+    try {
+      const row = await this.knex(this.tableName)
+        .select('id')
+        .where({ part_number: partNumber.getValue() })
+        .first();
+      return Result.ok(row !== undefined);
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to check existence', ErrorCode.INTERNAL);
+    }
+  }
+
+  // Pushes every SearchCriteria filter down into the WHERE clause
+  private applyFilters(
+    query: Knex.QueryBuilder<PartRow>,
+    criteria: SearchCriteria
+  ): Knex.QueryBuilder<PartRow> {
+    // No ranking in SQL: a part matches when any query word appears in any text column
+    const words = criteria.query?.split(/[^\p{L}\p{N}]+/u).filter(Boolean) ?? [];
+    if (words.length > 0) {
+      query.where(builder => {
+        for (const word of words) {
+          const pattern = `%${this.escapeLike(word)}%`;
+          for (const column of TEXT_COLUMNS) {
+            builder.orWhereILike(column, pattern);
+          }
+        }
+      });
+    }
+
+    if (criteria.name) {
+      query.whereILike('name', `%${this.escapeLike(criteria.name)}%`);
+    }
+
+    if (criteria.partNumber) {
+      query.whereILike('part_number', `%${this.escapeLike(criteria.partNumber)}%`);
+    }
+
+    if (criteria.category) {
+      query.whereILike('category', `%${this.escapeLike(criteria.category)}%`);
+    }
+
+    if (criteria.status) {
+      query.where('status', criteria.status);
+    }
+
+    if (criteria.minPrice !== undefined) {
+      query.where('price', '>=', criteria.minPrice);
+    }
+
+    if (criteria.maxPrice !== undefined) {
+      query.where('price', '<=', criteria.maxPrice);
+    }
+
+    if (criteria.inStock) {
+      query.where('quantity', '>', 0);
+    }
+
+    return query;
+  }
+
+  private async countByColumn(column: 'category' | 'status', criteria: SearchCriteria): Promise<FacetCount[]> {
+    const rows: { value: string; count: string | number }[] = await this.applyFilters(
+      this.knex<PartRow>(this.tableName),
+      criteria
+    )
+      .select({ value: column })
+      .count({ count: '*' })
+      .groupBy(column);
+
+    return rows
+      .map(row => ({ value: row.value, count: Number(row.count) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  // One conditional sum per band, so all bands are counted in a single scan
+  private async countPriceBands(criteria: SearchCriteria, priceBands: PriceBand[]): Promise<number[]> {
+    if (priceBands.length === 0) {
+      return [];
+    }
+
+    const columns = priceBands.map((band, index) => {
+      const conditions: string[] = [];
+      const bindings: number[] = [];
+      if (band.min !== undefined) {
+        conditions.push('price >= ?');
+        bindings.push(band.min);
+      }
+      if (band.max !== undefined) {
+        conditions.push('price < ?');
+        bindings.push(band.max);
+      }
+      const condition = conditions.length ? conditions.join(' and ') : 'true';
+      return this.knex.raw(`sum(case when ${condition} then 1 else 0 end) as ??`, [...bindings, `band_${index}`]);
+    });
+
+    const row: Record<string, string | number | null> | undefined = await this.applyFilters(
+      this.knex<PartRow>(this.tableName),
+      criteria
+    )
+      .select(columns)
+      .first();
+
+    return priceBands.map((_, index) => Number(row?.[`band_${index}`] ?? 0));
+  }
+
+  // Explicit sort keys (or insertion order by default), always tie-broken on id
+  private buildOrderBy(criteria: SearchCriteria): { column: string; order: 'asc' | 'desc' }[] {
+    const keys = criteria.sort?.length
+      ? criteria.sort.map(({ field, direction }) => ({ column: SORT_COLUMNS[field], order: direction }))
+      : [{ column: 'created_at', order: 'asc' as const }];
+
+    return [...keys, { column: 'id', order: 'asc' }];
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+  }
+
+  private toRow(part: Part): PartRow {
+    return {
+      id: part.getId().getValue(),
+      part_number: part.getPartNumber().getValue(),
+      name: part.getName().getValue(),
+      description: part.getDescription() ?? null,
+      price: part.getPrice().getValue(),
+      quantity: part.getQuantity().getValue(),
+      status: part.getStatus(),
+      category: part.getCategory().getValue(),
+      created_at: part.getCreatedAt(),
+      updated_at: part.getUpdatedAt()
+    };
+  }
+
+  private toDomain(row: PartRow): Part {
+    return Part.fromPersistence(new PartId(row.id), {
+      partNumber: new PartNumber(row.part_number),
+      name: new PartName(row.name),
+      description: row.description ?? undefined,
+      // numeric columns come back from pg as strings
+      price: new Price(Number(row.price)),
+      quantity: new Quantity(Number(row.quantity)),
+      status: row.status as PartStatus,
+      category: new Category(row.category),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+  }
+}
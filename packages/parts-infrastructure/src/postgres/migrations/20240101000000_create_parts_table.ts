@@ -0,0 +1,25 @@
+import type { Knex } from 'knex';
+
+export const PARTS_TABLE = 'parts';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable(PARTS_TABLE, table => {
+    table.uuid('id').primary();
+    table.string('part_number', 50).notNullable().unique();
+    table.string('name', 200).notNullable();
+    table.text('description').nullable();
+    table.decimal('price', 12, 2).notNullable();
+    table.integer('quantity').notNullable().defaultTo(0);
+    table.string('status', 20).notNullable();
+    table.string('category', 100).notNullable();
+    table.timestamp('created_at', { useTz: true }).notNullable();
+    table.timestamp('updated_at', { useTz: true }).notNullable();
+
+    table.index(['category'], 'parts_category_idx');
+    table.index(['status'], 'parts_status_idx');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists(PARTS_TABLE);
+}
@@ -0,0 +1,38 @@
+import type { Knex } from 'knex';
+import * as createPartsTable from './20240101000000_create_parts_table.js';
+
+export { PARTS_TABLE } from './20240101000000_create_parts_table.js';
+
+const migrations: Record<string, Knex.Migration> = {
+  '20240101000000_create_parts_table': createPartsTable
+};
+
+/**
+ * Serves the bundled migrations to Knex, so they run from the compiled
+ * package without a migrations directory on disk.
+ */
+export class PartsMigrationSource implements Knex.MigrationSource<string> {
+  async getMigrations(): Promise<string[]> {
+    return Object.keys(migrations).sort();
+  }
+
+  getMigrationName(migration: string): string {
+    return migration;
+  }
+
+  async getMigration(migration: string): Promise<Knex.Migration> {
+    const found = migrations[migration];
+    if (!found) {
+      throw new Error(`Unknown migration: ${migration}`);
+    }
+    return found;
+  }
+}
+
+export async function migrateLatest(knex: Knex): Promise<void> {
+  await knex.migrate.latest({ migrationSource: new PartsMigrationSource() });
+}
+
+export async function rollbackAll(knex: Knex): Promise<void> {
+  await knex.migrate.rollback({ migrationSource: new PartsMigrationSource() }, true);
+}
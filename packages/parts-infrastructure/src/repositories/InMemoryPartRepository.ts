@@ -1,107 +1,388 @@
-import { Result } from '@partsy/shared-utils';
+import { ErrorCode, Result } from '@partsy/shared-utils';
 import { 
   Part, 
   PartRepository, 
   PartId, 
   PartNumber, 
   SearchCriteria,
+  SearchCursor,
+  PartSearchResult,
+  PartFacets,
+  PriceBand,
+  SuggestionCandidate,
+  FacetCount,
+  SortField,
+  SortOption,
   PartName,
   Price,
   Quantity,
   PartStatus,
   Category
 } from '@partsy/parts-domain';
+import { TextIndex } from '../search/TextIndex.js';
+import { Bm25TextIndex } from '../search/Bm25TextIndex.js';
+import { PartTextField, DEFAULT_PART_FIELD_BOOSTS } from '../search/PartTextFields.js';
+import { levenshtein, maxEditsFor } from '../search/EditDistance.js';
 
-// In-memory implementation for development/testing
+interface SortKey {
+  value: (part: Part) => string | number;
+  direction: 'asc' | 'desc';
+}
+
+export interface InMemoryPartRepositoryOptions {
+  // Replaces the default BM25 index entirely
+  textIndex?: TextIndex<PartTextField>;
+  // Overrides for the default index's field boosts
+  boosts?: Partial<Record<PartTextField, number>>;
+}
+
+// In-memory implementation for development/testing. Like a database it hands out
+// copies, so changes to a loaded part only reach the store through save
 export class InMemoryPartRepository implements PartRepository {
   private parts: Map<string, Part> = new Map();
+  private readonly textIndex: TextIndex<PartTextField>;
+
+  constructor(options: InMemoryPartRepositoryOptions = {}) {
+    this.textIndex = options.textIndex ?? new Bm25TextIndex<PartTextField>({
+      boosts: { ...DEFAULT_PART_FIELD_BOOSTS, ...options.boosts }
+    });
+  }
 
   async save(part: Part): Promise<Result<void>> {
     try {
-      this.parts.set(part.getId().getValue(), part);
+      this.parts.set(part.getId().getValue(), this.copy(part));
+      this.textIndex.add(part.getId().getValue(), {
+        name: part.getName().getValue(),
+        description: part.getDescription(),
+        partNumber: this.partNumberText(part.getPartNumber()),
+        category: part.getCategory().getValue()
+      });
       return Result.ok();
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to save part');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to save part', ErrorCode.INTERNAL);
     }
   }
 
   async findById(id: PartId): Promise<Result<Part | null>> {
     try {
-      const part = this.parts.get(id.getValue()) || null;
-      return Result.ok(part);
+      const part = this.parts.get(id.getValue());
+      return Result.ok(part ? this.copy(part) : null);
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to find part');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
     }
   }
 
   async findByPartNumber(partNumber: PartNumber): Promise<Result<Part | null>> {
     try {
       const part = Array.from(this.parts.values())
-        .find(p => p.getPartNumber().getValue() === partNumber.getValue()) || null;
-      return Result.ok(part);
+        .find(p => p.getPartNumber().getValue() === partNumber.getValue());
+      return Result.ok(part ? this.copy(part) : null);
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to find part');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to find part', ErrorCode.INTERNAL);
     }
   }
 
-  async search(criteria: SearchCriteria): Promise<Result<Part[]>> {
+  async search(criteria: SearchCriteria): Promise<Result<PartSearchResult>> {
     try {
-      let parts = Array.from(this.parts.values());
+      const scores = this.scoreQuery(criteria);
+      const sortKeys = this.sortKeys(criteria.sort, scores);
+      const parts = this.filterParts(Array.from(this.parts.values()), criteria, scores)
+        .map(part => ({ part, position: this.positionOf(part, sortKeys) }))
+        .sort((a, b) => this.comparePositions(a.position, b.position, sortKeys));
 
-      if (criteria.name) {
-        parts = parts.filter(p => 
-          p.getName().getValue().toLowerCase().includes(criteria.name!.toLowerCase())
-        );
-      }
+      const limit = criteria.limit || 10;
+      let startIndex: number;
+      let endIndex: number;
 
-      if (criteria.partNumber) {
-        parts = parts.filter(p => 
-          p.getPartNumber().getValue().toLowerCase().includes(criteria.partNumber!.toLowerCase())
+      if (criteria.cursor) {
+        const cursor = criteria.cursor;
+        // First part past the cursor position, in sort order
+        const boundary = parts.findIndex(({ position }) =>
+          this.comparePositions(position, cursor, sortKeys) > (cursor.direction === 'after' ? 0 : -1)
         );
+        const splitIndex = boundary === -1 ? parts.length : boundary;
+        startIndex = cursor.direction === 'after' ? splitIndex : Math.max(0, splitIndex - limit);
+        endIndex = cursor.direction === 'after' ? splitIndex + limit : splitIndex;
+      } else {
+        const page = criteria.page || 1;
+        startIndex = (page - 1) * limit;
+        endIndex = startIndex + limit;
       }
 
-      if (criteria.category) {
-        parts = parts.filter(p => 
-          p.getCategory().getValue().toLowerCase().includes(criteria.category!.toLowerCase())
-        );
-      }
+      const pageEntries = parts.slice(startIndex, endIndex);
+      const paginatedParts = pageEntries.map(({ part }) => this.copy(part));
+      const first = pageEntries[0];
+      const last = pageEntries[pageEntries.length - 1];
 
-      if (criteria.status) {
-        parts = parts.filter(p => p.getStatus() === criteria.status);
-      }
+      return Result.ok({
+        parts: paginatedParts,
+        total: parts.length,
+        ...(scores && { scores: this.pageScores(paginatedParts, scores) }),
+        ...(last && endIndex < parts.length && { nextCursor: { direction: 'after' as const, ...last.position } }),
+        ...(first && startIndex > 0 && { prevCursor: { direction: 'before' as const, ...first.position } })
+      });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to search parts', ErrorCode.INTERNAL);
+    }
+  }
 
-      if (criteria.minPrice !== undefined) {
-        parts = parts.filter(p => p.getPrice().getValue() >= criteria.minPrice!);
-      }
+  async facets(criteria: SearchCriteria, priceBands: PriceBand[]): Promise<Result<PartFacets>> {
+    try {
+      const all = Array.from(this.parts.values());
+      const scores = this.scoreQuery(criteria);
 
-      if (criteria.maxPrice !== undefined) {
-        parts = parts.filter(p => p.getPrice().getValue() <= criteria.maxPrice!);
-      }
+      const byCategory = this.filterParts(all, { ...criteria, category: undefined }, scores);
+      const byStatus = this.filterParts(all, { ...criteria, status: undefined }, scores);
+      const byPrice = this.filterParts(all, { ...criteria, minPrice: undefined, maxPrice: undefined }, scores);
+
+      return Result.ok({
+        categories: this.countBy(byCategory, p => p.getCategory().getValue()),
+        statuses: this.countBy(byStatus, p => p.getStatus()),
+        priceBands: priceBands.map(band => ({
+          ...band,
+          count: byPrice.filter(p => this.isInBand(p.getPrice().getValue(), band)).length
+        }))
+      });
+    } catch (error) {
+      return Result.fail(error instanceof Error ? error.message : 'Failed to compute facets', ErrorCode.INTERNAL);
+    }
+  }
 
-      if (criteria.inStock) {
-        parts = parts.filter(p => p.isInStock());
+  async suggest(prefix: string, limit: number): Promise<Result<SuggestionCandidate[]>> {
+    try {
+      const prefixWords = this.words(prefix);
+      const normalizedPrefix = PartNumber.normalize(prefix);
+      const parts = Array.from(this.parts.values());
+      const startsWithWords = (text: string) => {
+        const words = this.words(text);
+        return prefixWords.every(prefixWord => words.some(word => word.startsWith(prefixWord)));
+      };
+
+      if (prefixWords.length === 0) {
+        return Result.ok([]);
       }
 
-      // Apply pagination
-      const page = criteria.page || 1;
-      const limit = criteria.limit || 10;
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      
-      const paginatedParts = parts.slice(startIndex, endIndex);
+      // Ranked before the cut to limit, so the best completions aren't the ones dropped
+      const byCompletion = this.byCompletion(prefixWords[0]!);
 
-      return Result.ok(paginatedParts);
+      const names: SuggestionCandidate[] = parts
+        .filter(p => startsWithWords(p.getName().getValue()))
+        .sort((a, b) => byCompletion(a.getName().getValue(), b.getName().getValue()))
+        .slice(0, limit)
+        .map(p => ({ field: 'name', value: p.getName().getValue(), partId: p.getId().getValue() }));
+
+      const partNumbers: SuggestionCandidate[] = parts
+        .filter(p => p.getPartNumber().getNormalizedValue().startsWith(normalizedPrefix))
+        .sort((a, b) => byCompletion(a.getPartNumber().getValue(), b.getPartNumber().getValue()))
+        .slice(0, limit)
+        .map(p => ({ field: 'partNumber', value: p.getPartNumber().getValue(), partId: p.getId().getValue() }));
+
+      const categories: SuggestionCandidate[] = [...new Set(parts.map(p => p.getCategory().getValue()))]
+        .filter(startsWithWords)
+        .sort(byCompletion)
+        .slice(0, limit)
+        .map(value => ({ field: 'category', value }));
+
+      return Result.ok([...names, ...partNumbers, ...categories]);
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to search parts');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to suggest parts', ErrorCode.INTERNAL);
+    }
+  }
+
+  // Value objects are immutable, so copying the props is enough; pending domain
+  // events stay with the caller's instance, as they would with a real database
+  private copy(part: Part): Part {
+    return Part.fromPersistence(part.getId(), {
+      partNumber: part.getPartNumber(),
+      name: part.getName(),
+      description: part.getDescription(),
+      price: part.getPrice(),
+      quantity: part.getQuantity(),
+      status: part.getStatus(),
+      category: part.getCategory(),
+      createdAt: new Date(part.getCreatedAt()),
+      updatedAt: new Date(part.getUpdatedAt())
+    });
+  }
+
+  // A free-text query only keeps parts the text index scored, or when it has nothing
+  // the index can match, parts containing all of its words
+  private filterParts(parts: Part[], criteria: SearchCriteria, scores?: Map<string, number>): Part[] {
+    if (scores) {
+      parts = parts.filter(p => scores.has(p.getId().getValue()));
+    } else if (criteria.query) {
+      const queryWords = this.words(criteria.query);
+      parts = parts.filter(p => {
+        const text = [p.getName().getValue(), p.getDescription() ?? '', p.getPartNumber().getValue(), p.getCategory().getValue()];
+        const words = new Set(text.flatMap(field => this.words(field)));
+        return queryWords.every(word => words.has(word));
+      });
+    }
+
+    if (criteria.name) {
+      parts = parts.filter(p => criteria.fuzzy
+        ? this.fuzzyNameMatch(p.getName().getValue(), criteria.name!)
+        : p.getName().getValue().toLowerCase().includes(criteria.name!.toLowerCase())
+      );
+    }
+
+    if (criteria.partNumber) {
+      parts = parts.filter(p => criteria.fuzzy
+        ? this.fuzzyPartNumberMatch(p.getPartNumber(), criteria.partNumber!)
+        : p.getPartNumber().getValue().toLowerCase().includes(criteria.partNumber!.toLowerCase())
+      );
+    }
+
+    if (criteria.category) {
+      parts = parts.filter(p => 
+        p.getCategory().getValue().toLowerCase().includes(criteria.category!.toLowerCase())
+      );
+    }
+
+    if (criteria.status) {
+      parts = parts.filter(p => p.getStatus() === criteria.status);
+    }
+
+    if (criteria.minPrice !== undefined) {
+      parts = parts.filter(p => p.getPrice().getValue() >= criteria.minPrice!);
+    }
+
+    if (criteria.maxPrice !== undefined) {
+      parts = parts.filter(p => p.getPrice().getValue() <= criteria.maxPrice!);
+    }
+
+    if (criteria.inStock) {
+      parts = parts.filter(p => p.isInStock());
+    }
+
+    return parts;
+  }
+
+  // Undefined when there is nothing to rank by: no query, or one the index can't match,
+  // such as "the", which filterParts then matches as plain words
+  private scoreQuery({ query, fuzzy }: SearchCriteria): Map<string, number> | undefined {
+    if (!query || !this.textIndex.hasTerms(query)) {
+      return undefined;
+    }
+    return new Map(this.textIndex.search(query, { fuzzy }).map(hit => [hit.id, hit.score]));
+  }
+
+  // Every typed word must be close to (or close to the start of) some word of the name
+  private fuzzyNameMatch(name: string, typed: string): boolean {
+    const nameWords = this.words(name);
+    return this.words(typed).every(word => {
+      const maxEdits = maxEditsFor(word.length);
+      return nameWords.some(nameWord =>
+        nameWord.includes(word) ||
+        levenshtein(word, nameWord, maxEdits) <= maxEdits ||
+        levenshtein(word, nameWord.slice(0, word.length), maxEdits) <= maxEdits
+      );
+    });
+  }
+
+  private fuzzyPartNumberMatch(partNumber: PartNumber, typed: string): boolean {
+    const normalizedTyped = PartNumber.normalize(typed);
+    const normalized = partNumber.getNormalizedValue();
+    const maxEdits = maxEditsFor(normalizedTyped.length);
+    return normalized.includes(normalizedTyped) || levenshtein(normalizedTyped, normalized, maxEdits) <= maxEdits;
+  }
+
+  // Ranks like SuggestPartsUseCase: texts the prefix completes from their first word,
+  // then the shortest
+  private byCompletion(firstPrefixWord: string): (a: string, b: string) => number {
+    const completesWhole = (text: string) => Number(this.words(text)[0]?.startsWith(firstPrefixWord) ?? false);
+    return (a, b) => completesWhole(b) - completesWhole(a) || a.length - b.length || a.localeCompare(b);
+  }
+
+  private words(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  }
+
+  // Index the separator-free form too, so "BRK002" finds "BRK-002"
+  private partNumberText(partNumber: PartNumber): string {
+    const normalized = partNumber.getNormalizedValue();
+    return normalized === partNumber.getValue() ? normalized : `${partNumber.getValue()} ${normalized}`;
+  }
+
+  private pageScores(parts: Part[], scores: Map<string, number>): Map<string, number> {
+    return new Map(parts.map(p => [p.getId().getValue(), scores.get(p.getId().getValue())!]));
+  }
+
+  private countBy(parts: Part[], key: (part: Part) => string): FacetCount[] {
+    const counts = new Map<string, number>();
+    for (const part of parts) {
+      const value = key(part);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  private isInBand(price: number, band: PriceBand): boolean {
+    return (band.min === undefined || price >= band.min) && (band.max === undefined || price < band.max);
+  }
+
+  // Explicit sort keys, else relevance for a query, else insertion order; ties always go by id
+  private sortKeys(sort: SortOption[] | undefined, scores?: Map<string, number>): SortKey[] {
+    if (sort?.length) {
+      return sort.map(({ field, direction }) => ({ value: part => this.getSortValue(part, field), direction }));
+    }
+    if (scores) {
+      return [{ value: part => scores.get(part.getId().getValue())!, direction: 'desc' }];
+    }
+    return [{ value: part => part.getCreatedAt().getTime(), direction: 'asc' }];
+  }
+
+  private positionOf(part: Part, sortKeys: SortKey[]): Omit<SearchCursor, 'direction'> {
+    return { values: sortKeys.map(key => key.value(part)), id: part.getId().getValue() };
+  }
+
+  private comparePositions(
+    a: Omit<SearchCursor, 'direction'>,
+    b: Omit<SearchCursor, 'direction'>,
+    sortKeys: SortKey[]
+  ): number {
+    for (let i = 0; i < sortKeys.length; i++) {
+      const order = this.compareValues(a.values[i]!, b.values[i]!);
+      if (order !== 0) {
+        return sortKeys[i]!.direction === 'desc' ? -order : order;
+      }
+    }
+    // Stable tiebreak so equal keys never swap between pages
+    return a.id.localeCompare(b.id);
+  }
+
+  private getSortValue(part: Part, field: SortField): string | number {
+    switch (field) {
+      case 'name':
+        return part.getName().getValue();
+      case 'partNumber':
+        return part.getPartNumber().getValue();
+      case 'price':
+        return part.getPrice().getValue();
+      case 'quantity':
+        return part.getQuantity().getValue();
+      case 'createdAt':
+        return part.getCreatedAt().getTime();
+      case 'updatedAt':
+        return part.getUpdatedAt().getTime();
+    }
+  }
+
+  private compareValues(a: string | number, b: string | number): number {
+    if (typeof a === 'string' && typeof b === 'string') {
+      return a.localeCompare(b, undefined, { sensitivity: 'base' });
     }
+    return a < b ? -1 : a > b ? 1 : 0;
   }
 
   async delete(id: PartId): Promise<Result<void>> {
     try {
       this.parts.delete(id.getValue());
+      this.textIndex.remove(id.getValue());
       return Result.ok();
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to delete part');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to delete part', ErrorCode.INTERNAL);
     }
   }
 
@@ -111,7 +392,7 @@ export class InMemoryPartRepository implements PartRepository {
         .some(p => p.getPartNumber().getValue() === partNumber.getValue());
       return Result.ok(exists);
     } catch (error) {
-      return Result.fail(error instanceof Error ? error.message : 'Failed to check existence');
+      return Result.fail(error instanceof Error ? error.message : 'Failed to check existence', ErrorCode.INTERNAL);
     }
   }
 
@@ -0,0 +1,182 @@
+import { TextIndex, TextHit, TextSearchOptions } from './TextIndex.js';
+import { TextAnalyzer, StandardAnalyzer } from './TextAnalyzer.js';
+import { levenshtein, maxEditsFor } from './EditDistance.js';
+
+export interface Bm25TextIndexOptions<F extends string> {
+  // Per-field weight; fields without an entry weigh 1
+  boosts?: Partial<Record<F, number>>;
+  // Term frequency saturation
+  k1?: number;
+  // Length normalization, 0 (none) to 1 (full)
+  b?: number;
+  analyzer?: TextAnalyzer;
+}
+
+interface TermVariant {
+  term: string;
+  // 1 for the exact term, less the more edits a fuzzy variant needed
+  weight: number;
+}
+
+interface IndexedDocument<F extends string> {
+  termFrequencies: Map<F, Map<string, number>>;
+  lengths: Map<F, number>;
+}
+
+/**
+ * BM25F: term frequencies are length-normalized per field, weighted by the
+ * field boost and summed before saturation, so a term found in a boosted
+ * field counts for more without letting repeated terms dominate.
+ */
+export class Bm25TextIndex<F extends string = string> implements TextIndex<F> {
+  private readonly boosts: Partial<Record<F, number>>;
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly analyzer: TextAnalyzer;
+
+  private readonly documents = new Map<string, IndexedDocument<F>>();
+  // term -> ids of documents containing it in any field
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly totalFieldLengths = new Map<F, number>();
+
+  constructor(options: Bm25TextIndexOptions<F> = {}) {
+    this.boosts = options.boosts ?? {};
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.analyzer = options.analyzer ?? new StandardAnalyzer();
+  }
+
+  add(id: string, fields: Partial<Record<F, string>>): void {
+    this.remove(id);
+
+    const document: IndexedDocument<F> = { termFrequencies: new Map(), lengths: new Map() };
+
+    for (const [field, text] of Object.entries(fields) as [F, string | undefined][]) {
+      if (!text) {
+        continue;
+      }
+
+      const terms = this.analyzer.analyze(text);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        this.postingsFor(term).add(id);
+      }
+
+      document.termFrequencies.set(field, frequencies);
+      document.lengths.set(field, terms.length);
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) + terms.length);
+    }
+
+    this.documents.set(id, document);
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const [field, frequencies] of document.termFrequencies) {
+      for (const term of frequencies.keys()) {
+        const ids = this.postings.get(term);
+        ids?.delete(id);
+        if (ids?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) - (document.lengths.get(field) ?? 0));
+    }
+
+    this.documents.delete(id);
+  }
+
+  search(query: string, options: TextSearchOptions = {}): TextHit[] {
+    const terms = [...new Set(this.analyzer.analyze(query))];
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      // A document counts its best-matching variant once, so typo variants don't stack
+      const termScores = new Map<string, number>();
+
+      for (const variant of options.fuzzy ? this.fuzzyVariants(term) : [{ term, weight: 1 }]) {
+        const ids = this.postings.get(variant.term);
+        if (!ids) {
+          continue;
+        }
+
+        const idf = this.idf(ids.size);
+        for (const id of ids) {
+          const weightedFrequency = this.weightedTermFrequency(this.documents.get(id)!, variant.term);
+          const score = variant.weight * idf * (weightedFrequency * (this.k1 + 1)) / (weightedFrequency + this.k1);
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, score));
+        }
+      }
+
+      for (const [id, score] of termScores) {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  hasTerms(query: string): boolean {
+    return this.analyzer.analyze(query).length > 0;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalFieldLengths.clear();
+  }
+
+  // Linear scan of the vocabulary, which is fine at in-memory catalogue sizes
+  private fuzzyVariants(term: string): TermVariant[] {
+    const maxEdits = maxEditsFor(term.length);
+    const variants: TermVariant[] = [];
+
+    for (const candidate of this.postings.keys()) {
+      const distance = candidate === term ? 0 : levenshtein(term, candidate, maxEdits);
+      if (distance <= maxEdits) {
+        variants.push({ term: candidate, weight: 1 / (1 + distance) });
+      }
+    }
+
+    return variants;
+  }
+
+  private postingsFor(term: string): Set<string> {
+    let ids = this.postings.get(term);
+    if (!ids) {
+      ids = new Set();
+      this.postings.set(term, ids);
+    }
+    return ids;
+  }
+
+  // Lucene's variant, which never goes negative for very common terms
+  private idf(documentFrequency: number): number {
+    const total = this.documents.size;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private weightedTermFrequency(document: IndexedDocument<F>, term: string): number {
+    let weighted = 0;
+
+    for (const [field, frequencies] of document.termFrequencies) {
+      const frequency = frequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+
+      const averageLength = (this.totalFieldLengths.get(field) ?? 0) / this.documents.size;
+      const length = document.lengths.get(field) ?? 0;
+      const normalization = averageLength > 0 ? 1 - this.b + this.b * (length / averageLength) : 1;
+      weighted += (this.boosts[field] ?? 1) * frequency / normalization;
+    }
+
+    return weighted;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Levenshtein distance between two strings. With `max`, gives up as soon as
+ * the distance must exceed it and returns `max + 1`, which keeps scans over a
+ * whole vocabulary cheap.
+ */
+export function levenshtein(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution);
+      rowMin = Math.min(rowMin, current[j]!);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return Math.min(previous[b.length]!, max + 1);
+}
+
+// Same scale as Elasticsearch's AUTO fuzziness: exact up to 2 chars, 1 edit up to 5, then 2
+export function maxEditsFor(length: number): number {
+  if (length <= 2) {
+    return 0;
+  }
+  return length <= 5 ? 1 : 2;
+}
@@ -0,0 +1,10 @@
+// Text fields of a part that free-text queries are matched against
+export type PartTextField = 'name' | 'description' | 'partNumber' | 'category';
+
+// Relative weight of a match in each field; shared by the in-memory and Elastic backends
+export const DEFAULT_PART_FIELD_BOOSTS: Record<PartTextField, number> = {
+  name: 3,
+  partNumber: 2,
+  category: 1.5,
+  description: 1
+};
@@ -0,0 +1,80 @@
+// Turns raw text into the terms that get indexed and matched
+export interface TextAnalyzer {
+  analyze(text: string): string[];
+}
+
+export const DEFAULT_STOP_WORDS: ReadonlySet<string> = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+export interface StandardAnalyzerOptions {
+  stopWords?: ReadonlySet<string>;
+  stemming?: boolean;
+}
+
+/**
+ * Lowercases, splits on anything that is not a letter or digit, drops stop
+ * words and applies a light English suffix stemmer.
+ */
+export class StandardAnalyzer implements TextAnalyzer {
+  private readonly stopWords: ReadonlySet<string>;
+  private readonly stemming: boolean;
+
+  constructor(options: StandardAnalyzerOptions = {}) {
+    this.stopWords = options.stopWords ?? DEFAULT_STOP_WORDS;
+    this.stemming = options.stemming ?? true;
+  }
+
+  analyze(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 0 && !this.stopWords.has(token))
+      .map(token => (this.stemming ? stem(token) : token));
+  }
+}
+
+/**
+ * Strips common inflections (plurals, -ing, -ed) so "brakes" and "braking"
+ * both index as "brake". Deliberately conservative: short words and tokens
+ * containing digits are left alone, since those are usually codes.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) {
+    return token;
+  }
+
+  if (token.endsWith('ies') && token.length > 4) {
+    return `${token.slice(0, -3)}y`;
+  }
+
+  if (/(sses|xes|zes|ches|shes)$/.test(token)) {
+    return token.slice(0, -2);
+  }
+
+  if (token.endsWith('s') && !/(ss|us|is)$/.test(token)) {
+    return token.slice(0, -1);
+  }
+
+  if (token.endsWith('ing') && token.length > 5) {
+    return restoreE(undouble(token.slice(0, -3)));
+  }
+
+  if (token.endsWith('ed') && token.length > 4) {
+    return restoreE(undouble(token.slice(0, -2)));
+  }
+
+  return token;
+}
+
+// "stopped" -> "stopp" -> "stop"
+function undouble(token: string): string {
+  return /([^aeiouslz])\1$/.test(token) ? token.slice(0, -1) : token;
+}
+
+// "braking" -> "brak" -> "brake", so it meets the stem of "brakes". Only short
+// single-syllable stems get the e back, otherwise "filtering" would become "filtere"
+function restoreE(token: string): string {
+  const syllables = token.match(/[aeiou]+[^aeiou]+/g)?.length ?? 0;
+  return syllables === 1 && /[^aeiou][aeiou][^aeiouwxy]$/.test(token) ? `${token}e` : token;
+}
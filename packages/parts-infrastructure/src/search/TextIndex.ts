@@ -0,0 +1,24 @@
+export interface TextHit {
+  id: string;
+  score: number;
+}
+
+export interface TextSearchOptions {
+  // Also match indexed terms within a few edits of each query term
+  fuzzy?: boolean;
+}
+
+/**
+ * In-process full-text index over documents made of named text fields.
+ * Implementations decide how terms are analyzed and how hits are scored.
+ */
+export interface TextIndex<F extends string = string> {
+  // Adds a document, replacing any previous version with the same id
+  add(id: string, fields: Partial<Record<F, string>>): void;
+  remove(id: string): void;
+  // Matching documents, best first
+  search(query: string, options?: TextSearchOptions): TextHit[];
+  // False when analysis leaves nothing to match, e.g. a query of only stop words
+  hasTerms(query: string): boolean;
+  clear(): void;
+}
@@ -0,0 +1,5 @@
+export * from './TextIndex.js';
+export * from './TextAnalyzer.js';
+export * from './Bm25TextIndex.js';
+export * from './PartTextFields.js';
+export * from './EditDistance.js';
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { Bm25TextIndex } from '../src/search/Bm25TextIndex.js';
+import { StandardAnalyzer, stem } from '../src/search/TextAnalyzer.js';
+import { levenshtein, maxEditsFor } from '../src/search/EditDistance.js';
+
+describe('levenshtein', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(levenshtein('brake', 'brake')).toBe(0);
+    expect(levenshtein('brke', 'brake')).toBe(1);
+    expect(levenshtein('disk', 'disc')).toBe(1);
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+  });
+
+  it('should stop early once the bound is exceeded', () => {
+    expect(levenshtein('alternator', 'brake', 2)).toBe(3);
+    expect(maxEditsFor(2)).toBe(0);
+    expect(maxEditsFor(5)).toBe(1);
+    expect(maxEditsFor(8)).toBe(2);
+  });
+});
+
+describe('StandardAnalyzer', () => {
+  it('should lowercase, split on punctuation and drop stop words', () => {
+    expect(new StandardAnalyzer().analyze('Brake Disc Set for BRK-002')).toEqual(['brake', 'disc', 'set', 'brk', '002']);
+  });
+
+  it('should stem common inflections to the same term', () => {
+    expect(stem('brakes')).toBe('brake');
+    expect(stem('braking')).toBe('brake');
+    expect(stem('batteries')).toBe('battery');
+    expect(stem('filtering')).toBe('filter');
+    expect(stem('switches')).toBe('switch');
+    expect(stem('225r16s')).toBe('225r16s');
+  });
+});
+
+describe('Bm25TextIndex', () => {
+  function createIndex(boosts = {}): Bm25TextIndex<'name' | 'description'> {
+    const index = new Bm25TextIndex<'name' | 'description'>({ boosts });
+    index.add('pads', { name: 'Brake Pads', description: 'Ceramic pads for quiet braking' });
+    index.add('disc', { name: 'Brake Disc', description: 'Vented disc' });
+    index.add('filter', { name: 'Air Filter', description: 'Fits most brake-free engines' });
+    return index;
+  }
+
+  it('should rank documents matching more query terms higher', () => {
+    const hits = createIndex().search('brake disc');
+
+    expect(hits.map(hit => hit.id)).toEqual(['disc', 'pads', 'filter']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('should let field boosts decide between name and description matches', () => {
+    const index = new Bm25TextIndex<'name' | 'description'>({ boosts: { name: 5 } });
+    index.add('in-name', { name: 'Ceramic Pads', description: 'Front axle' });
+    index.add('in-description', { name: 'Front Pads', description: 'Ceramic compound' });
+
+    expect(index.search('ceramic').map(hit => hit.id)).toEqual(['in-name', 'in-description']);
+  });
+
+  it('should score fuzzy variants below exact matches', () => {
+    const index = createIndex();
+
+    expect(index.search('brak')).toEqual([]);
+    const hits = index.search('brak pads', { fuzzy: true });
+    expect(hits.map(hit => hit.id)).toEqual(['pads', 'disc', 'filter']);
+    expect(index.search('brake pads')[0]!.score).toBeGreaterThan(hits[0]!.score);
+  });
+
+  it('should return nothing for unknown terms or stop words', () => {
+    expect(createIndex().search('turbocharger')).toEqual([]);
+    expect(createIndex().search('the and of')).toEqual([]);
+  });
+
+  it('should replace documents on re-add and forget removed ones', () => {
+    const index = createIndex();
+
+    index.add('disc', { name: 'Rotor', description: 'Slotted' });
+    index.remove('pads');
+
+    expect(index.search('brake').map(hit => hit.id)).toEqual(['filter']);
+    expect(index.search('rotor').map(hit => hit.id)).toEqual(['disc']);
+  });
+});
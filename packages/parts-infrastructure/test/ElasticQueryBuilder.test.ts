@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPartsQuery,
+  buildPartsSearchRequest,
+  buildPartsSort,
+  buildPartsFacetAggregations,
+  buildPartsSuggestRequests
+} from '../src/elastic/ElasticQueryBuilder.js';
+
+describe('ElasticQueryBuilder', () => {
+  it('should match everything when no criteria are given', () => {
+    expect(buildPartsQuery({})).toEqual({ match_all: {} });
+  });
+
+  it('should put the name in a scoring must clause', () => {
+    const query = buildPartsQuery({ name: 'brake disc' });
+    expect(query.bool!.must).toEqual([{ match: { name: { query: 'brake disc', operator: 'and' } } }]);
+    expect(query.bool!.filter).toEqual([]);
+  });
+
+  it('should match a free-text query across boosted fields and rank by score', () => {
+    const query = buildPartsQuery({ query: 'brake disc' });
+
+    expect(query.bool!.must).toEqual([{
+      multi_match: {
+        query: 'brake disc',
+        fields: ['name^3', 'partNumber^2', 'category^1.5', 'description^1']
+      }
+    }]);
+    expect(buildPartsSort({ query: 'brake disc' })[0]).toBe('_score');
+  });
+
+  it('should add AUTO fuzziness and a fuzzy part number clause in fuzzy mode', () => {
+    const query = buildPartsQuery({ name: 'brke', partNumber: 'BRK-003', fuzzy: true });
+
+    expect(query.bool!.must).toEqual([
+      { match: { name: { query: 'brke', operator: 'and', fuzziness: 'AUTO' } } }
+    ]);
+    expect(query.bool!.filter).toEqual([{
+      bool: {
+        should: [
+          { wildcard: { 'partNumber.normalized': { value: '*BRK003*' } } },
+          { fuzzy: { 'partNumber.normalized': { value: 'BRK003', fuzziness: 'AUTO' } } }
+        ],
+        minimum_should_match: 1
+      }
+    }]);
+  });
+
+  it('should translate structured criteria into filters', () => {
+    const query = buildPartsQuery({
+      partNumber: 'brk-002',
+      category: 'Brakes',
+      status: 'ACTIVE',
+      minPrice: 10,
+      maxPrice: 200,
+      inStock: true
+    });
+
+    expect(query.bool!.filter).toEqual([
+      { wildcard: { 'partNumber.normalized': { value: '*BRK002*' } } },
+      { wildcard: { category: { value: '*Brakes*', case_insensitive: true } } },
+      { term: { status: 'ACTIVE' } },
+      { range: { price: { gte: 10, lte: 200 } } },
+      { range: { quantity: { gt: 0 } } }
+    ]);
+  });
+
+  it('should escape wildcard characters in categories', () => {
+    const query = buildPartsQuery({ category: 'A*B?' });
+    expect(query.bool!.filter).toEqual([
+      { wildcard: { category: { value: '*A\\*B\\?*', case_insensitive: true } } }
+    ]);
+  });
+
+  it('should normalize part numbers like PartNumber.normalize and the index normalizer', () => {
+    for (const partNumber of ['BRK-002', 'brk 002', 'Brk_00.2/', 'brk#002*']) {
+      expect(buildPartsQuery({ partNumber }).bool!.filter).toEqual([
+        { wildcard: { 'partNumber.normalized': { value: '*BRK002*' } } }
+      ]);
+    }
+  });
+
+  it('should compute from/size and sort from the criteria', () => {
+    expect(buildPartsSearchRequest({ page: 3, limit: 20 })).toMatchObject({
+      from: 40,
+      size: 20,
+      sort: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+    expect(buildPartsSearchRequest({ name: 'filter' }).sort[0]).toBe('_score');
+  });
+
+  it('should map sort options onto index fields with an id tiebreak', () => {
+    expect(buildPartsSort({
+      name: 'filter',
+      sort: [{ field: 'name', direction: 'desc' }, { field: 'price', direction: 'asc' }]
+    })).toEqual([{ 'name.keyword': 'desc' }, { price: 'asc' }, { id: 'asc' }]);
+  });
+
+  it('should exclude each facet\'s own filter from its aggregation', () => {
+    const aggs = buildPartsFacetAggregations(
+      { category: 'Brakes', status: 'ACTIVE', minPrice: 10 },
+      [{ max: 100 }, { min: 100 }]
+    );
+
+    expect(aggs.categories!.filter).toEqual({
+      bool: { must: [], filter: [{ term: { status: 'ACTIVE' } }, { range: { price: { gte: 10, lte: undefined } } }] }
+    });
+    expect(aggs.priceBands!.filter).toEqual({
+      bool: {
+        must: [],
+        filter: [
+          { wildcard: { category: { value: '*Brakes*', case_insensitive: true } } },
+          { term: { status: 'ACTIVE' } }
+        ]
+      }
+    });
+    expect(aggs.priceBands!.aggs!.values!.range!.ranges).toEqual([
+      { key: '0', from: undefined, to: 100 },
+      { key: '1', from: 100, to: undefined }
+    ]);
+  });
+
+  it('should build one suggest request per field', () => {
+    const requests = buildPartsSuggestRequests('BRK-0', 5);
+
+    expect(requests.names.query).toEqual({ match_bool_prefix: { name: { query: 'BRK-0', operator: 'and' } } });
+    expect(requests.partNumbers!.query).toEqual({ prefix: { 'partNumber.normalized': { value: 'BRK0' } } });
+    expect(requests.categories.aggs).toEqual({
+      values: { terms: { field: 'category', size: 5, order: { _key: 'asc' } } }
+    });
+    expect(buildPartsSuggestRequests('--', 5).partNumbers).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Part,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category,
+  type SortOption
+} from '@partsy/parts-domain';
+import { InMemoryPartRepository } from '../src/repositories/InMemoryPartRepository.js';
+
+describe('InMemoryPartRepository', () => {
+  let repository: InMemoryPartRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryPartRepository();
+    await repository.seedWithInitialData();
+  });
+
+  describe('free-text query', () => {
+    it('should return hits ordered by relevance with a score for each', async () => {
+      const result = (await repository.search({ query: 'brakes for front wheels' })).getValue();
+
+      expect(result.parts.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002']);
+      expect(result.scores!.get(result.parts[0]!.getId().getValue())).toBeGreaterThan(0);
+    });
+
+    it('should match a query of only stop words as plain words', async () => {
+      const result = (await repository.search({ query: 'with' })).getValue();
+      const forParts = (await repository.search({ query: 'FOR' })).getValue().parts;
+
+      expect(result.parts.map(p => p.getPartNumber().getValue())).toEqual(['BAT-005']);
+      expect(result.scores).toBeUndefined();
+      expect(forParts.map(p => p.getPartNumber().getValue()).sort()).toEqual(['BRK-002', 'ENG-001', 'FIL-004']);
+    });
+
+    it('should search descriptions, part numbers and categories', async () => {
+      const byDescription = (await repository.search({ query: 'warranty' })).getValue().parts;
+      const byPartNumber = (await repository.search({ query: 'FIL-004' })).getValue().parts;
+      const byCategory = (await repository.search({ query: 'electrical' })).getValue().parts;
+
+      expect(byDescription.map(p => p.getPartNumber().getValue())).toEqual(['BAT-005']);
+      expect(byPartNumber.map(p => p.getPartNumber().getValue())).toEqual(['FIL-004']);
+      expect(byCategory.map(p => p.getPartNumber().getValue())).toEqual(['BAT-005']);
+    });
+
+    it('should rank name matches above description matches by default', async () => {
+      // "performance" is only in descriptions; "engine" is in a name and the ENG-001 category
+      const parts = (await repository.search({ query: 'engine performance' })).getValue().parts;
+
+      expect(parts[0]!.getPartNumber().getValue()).toBe('ENG-001');
+      expect(parts.map(p => p.getPartNumber().getValue())).toContain('FIL-004');
+    });
+
+    it('should honour configured field boosts', async () => {
+      const descriptionHeavy = new InMemoryPartRepository({ boosts: { name: 0.1, description: 10 } });
+      await descriptionHeavy.seedWithInitialData();
+
+      const parts = (await descriptionHeavy.search({ query: 'filter performance' })).getValue().parts;
+
+      // FIL-004 mentions both words in its description, ENG-001 only one
+      expect(parts[0]!.getPartNumber().getValue()).toBe('FIL-004');
+    });
+
+    it('should combine the query with structured filters and explicit sorting', async () => {
+      const result = (await repository.search({
+        query: 'performance',
+        maxPrice: 1000,
+        sort: [{ field: 'price', direction: 'asc' }]
+      })).getValue();
+
+      expect(result.parts.map(p => p.getPartNumber().getValue())).toEqual(['FIL-004']);
+      expect(result.total).toBe(1);
+    });
+
+    it('should drop deleted parts from the index', async () => {
+      const battery = (await repository.search({ query: 'battery' })).getValue().parts[0]!;
+
+      await repository.delete(battery.getId());
+
+      expect((await repository.search({ query: 'battery' })).getValue().parts).toHaveLength(0);
+    });
+
+    it('should leave results unscored without a query', async () => {
+      const result = (await repository.search({})).getValue();
+
+      expect(result.parts).toHaveLength(5);
+      expect(result.scores).toBeUndefined();
+    });
+  });
+
+  describe('fuzzy matching', () => {
+    it('should find part numbers regardless of separators and case', async () => {
+      const exact = (await repository.search({ partNumber: 'brk002' })).getValue().parts;
+      const fuzzy = (await repository.search({ partNumber: 'brk 002', fuzzy: true })).getValue().parts;
+
+      expect(exact).toHaveLength(0);
+      expect(fuzzy.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002']);
+    });
+
+    it('should tolerate a typo in a part number', async () => {
+      const parts = (await repository.search({ partNumber: 'BRK-003', fuzzy: true })).getValue().parts;
+      expect(parts.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002']);
+    });
+
+    it('should tolerate typos in name words', async () => {
+      const exact = (await repository.search({ name: 'brke disc' })).getValue().parts;
+      const fuzzy = (await repository.search({ name: 'brke disc', fuzzy: true })).getValue().parts;
+
+      expect(exact).toHaveLength(0);
+      expect(fuzzy.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002']);
+    });
+
+    it('should expand query terms to nearby indexed terms', async () => {
+      const exact = (await repository.search({ query: 'batery' })).getValue().parts;
+      const fuzzy = (await repository.search({ query: 'batery', fuzzy: true })).getValue().parts;
+
+      expect(exact).toHaveLength(0);
+      expect(fuzzy.map(p => p.getPartNumber().getValue())).toEqual(['BAT-005']);
+    });
+
+    it('should match a run-together part number in a query without fuzzy mode', async () => {
+      const parts = (await repository.search({ query: 'TIR003' })).getValue().parts;
+      expect(parts.map(p => p.getPartNumber().getValue())).toEqual(['TIR-003']);
+    });
+  });
+
+  describe('cursor paging', () => {
+    const byPrice: SortOption[] = [{ field: 'price', direction: 'asc' }];
+    const partNumbers = (parts: Part[]) => parts.map(p => p.getPartNumber().getValue());
+
+    it('should walk pages forward and back with cursors', async () => {
+      const first = (await repository.search({ sort: byPrice, limit: 2 })).getValue();
+      const second = (await repository.search({ sort: byPrice, limit: 2, cursor: first.nextCursor })).getValue();
+      const third = (await repository.search({ sort: byPrice, limit: 2, cursor: second.nextCursor })).getValue();
+      const back = (await repository.search({ sort: byPrice, limit: 2, cursor: third.prevCursor })).getValue();
+
+      expect(partNumbers(first.parts)).toEqual(['FIL-004', 'TIR-003']);
+      expect(first.prevCursor).toBeUndefined();
+      expect(partNumbers(second.parts)).toEqual(['BAT-005', 'BRK-002']);
+      expect(partNumbers(third.parts)).toEqual(['ENG-001']);
+      expect(third.nextCursor).toBeUndefined();
+      expect(partNumbers(back.parts)).toEqual(['BAT-005', 'BRK-002']);
+      expect(second.total).toBe(5);
+    });
+
+    it('should neither skip nor repeat parts inserted ahead of the cursor', async () => {
+      const first = (await repository.search({ sort: byPrice, limit: 2 })).getValue();
+      await repository.save(Part.create({
+        partNumber: new PartNumber('WSH-006'),
+        name: new PartName('Washer Fluid'),
+        price: new Price(9.5),
+        quantity: new Quantity(30),
+        status: PartStatus.ACTIVE,
+        category: new Category('Fluids')
+      }));
+
+      const byCursor = (await repository.search({ sort: byPrice, limit: 2, cursor: first.nextCursor })).getValue();
+      const byOffset = (await repository.search({ sort: byPrice, limit: 2, page: 2 })).getValue();
+
+      expect(partNumbers(byCursor.parts)).toEqual(['BAT-005', 'BRK-002']);
+      expect(partNumbers(byOffset.parts)).toEqual(['TIR-003', 'BAT-005']);
+    });
+
+    it('should position cursors by relevance when ranking a query', async () => {
+      const all = (await repository.search({ query: 'performance', limit: 10 })).getValue().parts;
+      const first = (await repository.search({ query: 'performance', limit: 1 })).getValue();
+      const rest = (await repository.search({ query: 'performance', limit: 10, cursor: first.nextCursor })).getValue();
+
+      expect(partNumbers([...first.parts, ...rest.parts])).toEqual(partNumbers(all));
+    });
+  });
+
+  describe('suggest', () => {
+    it('should return name, part number and category candidates for a prefix', async () => {
+      const candidates = (await repository.suggest('b', 10)).getValue();
+
+      expect(candidates.map(c => `${c.field}:${c.value}`)).toEqual([
+        'name:Brake Disc Set',
+        'name:Car Battery 12V',
+        'name:V8 Engine Block',
+        'partNumber:BAT-005',
+        'partNumber:BRK-002',
+        'category:Brakes'
+      ]);
+    });
+
+    it('should require every prefix word and ignore part number separators', async () => {
+      const byWords = (await repository.suggest('car bat', 10)).getValue();
+      const byPartNumber = (await repository.suggest('brk0', 10)).getValue();
+
+      expect(byWords.map(c => c.value)).toEqual(['Car Battery 12V']);
+      expect(byPartNumber.map(c => c.value)).toEqual(['BRK-002']);
+    });
+
+    it('should cap candidates per field, keeping the best completions', async () => {
+      const candidates = (await repository.suggest('b', 1)).getValue();
+      // "Brake Disc Set" starts with the prefix; the other names only contain a word that does
+      expect(candidates.map(c => `${c.field}:${c.value}`)).toEqual(['name:Brake Disc Set', 'partNumber:BAT-005', 'category:Brakes']);
+    });
+  });
+
+  describe('isolation', () => {
+    it('should only change stored parts through save', async () => {
+      const stored = (await repository.search({ partNumber: 'BRK-002' })).getValue().parts[0]!;
+      const loaded = (await repository.findById(stored.getId())).getValue()!;
+
+      loaded.updatePrice(new Price(1));
+      expect((await repository.findById(stored.getId())).getValue()!.getPrice().getValue()).toBe(150);
+
+      await repository.save(loaded);
+      expect((await repository.findById(stored.getId())).getValue()!.getPrice().getValue()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// Integration tests for KnexPartRepository.
+// Runs against an in-process Postgres (pg-mem) unless DATABASE_URL points at a real one,
+// e.g. docker run -d -p 5432:5432 -e POSTGRES_PASSWORD=pass postgres:15
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { newDb } from 'pg-mem';
+import createKnex, { type Knex } from 'knex';
+import {
+  Part,
+  PartId,
+  PartNumber,
+  PartName,
+  Price,
+  Quantity,
+  PartStatus,
+  Category
+} from '@partsy/parts-domain';
+import { KnexPartRepository } from '../src/postgres/KnexPartRepository.js';
+import { migrateLatest, rollbackAll } from '../src/postgres/migrations/index.js';
+
+function connect(): Knex {
+  if (process.env.DATABASE_URL) {
+    return createKnex({ client: 'pg', connection: process.env.DATABASE_URL });
+  }
+  // pg-mem does not understand decimal precision, so skip its AST coverage check
+  return newDb({ noAstCoverageCheck: true }).adapters.createKnex() as Knex;
+}
+
+function createPart(partNumber: string, name: string, price: number, quantity: number, category: string): Part {
+  return Part.create({
+    partNumber: new PartNumber(partNumber),
+    name: new PartName(name),
+    description: `${name} description`,
+    price: new Price(price),
+    quantity: new Quantity(quantity),
+    status: PartStatus.ACTIVE,
+    category: new Category(category)
+  });
+}
+
+describe('KnexPartRepository Integration Tests', () => {
+  let knex: Knex;
+  let repository: KnexPartRepository;
+
+  beforeEach(async () => {
+    knex = connect();
+    await migrateLatest(knex);
+    repository = new KnexPartRepository(knex);
+  });
+
+  afterEach(async () => {
+    await rollbackAll(knex);
+    await knex.destroy();
+  });
+
+  it('should save and find a part by id', async () => {
+    const part = createPart('ENG-001', 'V8 Engine Block', 2500, 5, 'Engine');
+    expect((await repository.save(part)).isSuccess()).toBe(true);
+
+    const found = (await repository.findById(part.getId())).getValue();
+
+    expect(found).not.toBeNull();
+    expect(found!.getId().getValue()).toBe(part.getId().getValue());
+    expect(found!.getPartNumber().getValue()).toBe('ENG-001');
+    expect(found!.getPrice().getValue()).toBe(2500);
+    expect(found!.getQuantity().getValue()).toBe(5);
+    expect(found!.getStatus()).toBe(PartStatus.ACTIVE);
+    expect(found!.getCreatedAt()).toBeInstanceOf(Date);
+  });
+
+  it('should upsert an existing part on save', async () => {
+    const part = createPart('BRK-002', 'Brake Disc Set', 150, 20, 'Brakes');
+    await repository.save(part);
+
+    part.updatePrice(new Price(175.5));
+    await repository.save(part);
+
+    const found = (await repository.findById(part.getId())).getValue();
+    expect(found!.getPrice().getValue()).toBe(175.5);
+    expect(await knex('parts').select('id')).toHaveLength(1);
+  });
+
+  it('should find by part number and check existence', async () => {
+    await repository.save(createPart('TIR-003', 'All-Season Tire', 89.99, 100, 'Tires'));
+
+    const found = (await repository.findByPartNumber(new PartNumber('tir-003'))).getValue();
+    expect(found!.getName().getValue()).toBe('All-Season Tire');
+
+    expect((await repository.exists(new PartNumber('TIR-003'))).getValue()).toBe(true);
+    expect((await repository.exists(new PartNumber('NOPE-999'))).getValue()).toBe(false);
+  });
+
+  it('should return null for an unknown id', async () => {
+    const found = (await repository.findById(new PartId('00000000-0000-0000-0000-000000000000'))).getValue();
+    expect(found).toBeNull();
+  });
+
+  it('should delete a part', async () => {
+    const part = createPart('FIL-004', 'Air Filter', 25.5, 50, 'Filters');
+    await repository.save(part);
+
+    expect((await repository.delete(part.getId())).isSuccess()).toBe(true);
+    expect((await repository.findById(part.getId())).getValue()).toBeNull();
+  });
+
+  describe('search', () => {
+    beforeEach(async () => {
+      await repository.save(createPart('ENG-001', 'V8 Engine Block', 2500, 5, 'Engine'));
+      await repository.save(createPart('BRK-002', 'Brake Disc Set', 150, 20, 'Brakes'));
+      await repository.save(createPart('BRK-003', 'Brake Pad Set', 45, 0, 'Brakes'));
+      await repository.save(createPart('BAT-005', 'Car Battery 12V', 120, 15, 'Electrical'));
+    });
+
+    it('should filter by name case-insensitively', async () => {
+      const parts = (await repository.search({ name: 'brake' })).getValue().parts;
+      expect(parts.map(p => p.getPartNumber().getValue()).sort()).toEqual(['BRK-002', 'BRK-003']);
+    });
+
+    it('should filter by part number, category and status', async () => {
+      expect((await repository.search({ partNumber: 'eng' })).getValue().parts).toHaveLength(1);
+      expect((await repository.search({ category: 'brakes' })).getValue().parts).toHaveLength(2);
+      expect((await repository.search({ status: PartStatus.INACTIVE })).getValue().parts).toHaveLength(0);
+    });
+
+    it('should filter by price range and stock', async () => {
+      const inRange = (await repository.search({ minPrice: 100, maxPrice: 200 })).getValue().parts;
+      expect(inRange.map(p => p.getPartNumber().getValue()).sort()).toEqual(['BAT-005', 'BRK-002']);
+
+      const inStock = (await repository.search({ category: 'Brakes', inStock: true })).getValue().parts;
+      expect(inStock.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002']);
+    });
+
+    it('should match any query word against the text columns', async () => {
+      const parts = (await repository.search({ query: 'disc electrical' })).getValue().parts;
+      expect(parts.map(p => p.getPartNumber().getValue()).sort()).toEqual(['BAT-005', 'BRK-002']);
+    });
+
+    it('should treat LIKE wildcards in filters literally', async () => {
+      expect((await repository.search({ name: '%' })).getValue().parts).toHaveLength(0);
+    });
+
+    it('should paginate results', async () => {
+      const firstPage = (await repository.search({ page: 1, limit: 3 })).getValue().parts;
+      const secondPage = (await repository.search({ page: 2, limit: 3 })).getValue().parts;
+
+      expect(firstPage).toHaveLength(3);
+      expect(secondPage).toHaveLength(1);
+    });
+
+    it('should sort by multiple keys', async () => {
+      const parts = (await repository.search({
+        sort: [{ field: 'quantity', direction: 'desc' }, { field: 'name', direction: 'asc' }]
+      })).getValue().parts;
+
+      expect(parts.map(p => p.getPartNumber().getValue())).toEqual(['BRK-002', 'BAT-005', 'ENG-001', 'BRK-003']);
+    });
+
+    it('should count facets over the other active filters', async () => {
+      const facets = (await repository.facets(
+        { category: 'Brakes', inStock: true },
+        [{ max: 100 }, { min: 100, max: 1000 }, { min: 1000 }]
+      )).getValue();
+
+      // The category facet ignores the category filter itself
+      expect(facets.categories).toEqual([
+        { value: 'Brakes', count: 1 },
+        { value: 'Electrical', count: 1 },
+        { value: 'Engine', count: 1 }
+      ]);
+      expect(facets.statuses).toEqual([{ value: 'ACTIVE', count: 1 }]);
+      expect(facets.priceBands).toEqual([
+        { max: 100, count: 0 },
+        { min: 100, max: 1000, count: 1 },
+        { min: 1000, count: 0 }
+      ]);
+    });
+
+    it('should suggest names, part numbers and categories by prefix', async () => {
+      const candidates = (await repository.suggest('br', 10)).getValue();
+
+      expect(candidates.map(c => `${c.field}:${c.value}`)).toEqual([
+        'name:Brake Disc Set',
+        'name:Brake Pad Set',
+        'partNumber:BRK-002',
+        'partNumber:BRK-003',
+        'category:Brakes'
+      ]);
+      expect((await repository.suggest('pad', 10)).getValue().map(c => c.value)).toEqual(['Brake Pad Set']);
+    });
+
+    it('should report the total match count across pages', async () => {
+      const result = (await repository.search({ category: 'Brakes', page: 2, limit: 1 })).getValue();
+
+      expect(result.parts).toHaveLength(1);
+      expect(result.total).toBe(2);
+    });
+  });
+});
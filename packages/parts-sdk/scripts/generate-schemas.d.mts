@@ -0,0 +1,4 @@
+/**
+ * Source of src/validation/schemas.ts for the given OpenAPI document text
+ */
+export function generateSchemas(specText: string): string;
@@ -0,0 +1,244 @@
+// Generates zod schemas for the request and response bodies and query parameters in
+// docs/api-specification.yaml. Usage: pnpm --filter @partsy/sdk generate:schemas
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import yaml from 'js-yaml';
+
+const SPEC_PATH = fileURLToPath(new URL('../../../docs/api-specification.yaml', import.meta.url));
+const OUTPUT_PATH = fileURLToPath(new URL('../src/validation/schemas.ts', import.meta.url));
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+function refName(ref) {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+// Single-quoted TypeScript string literal
+function quote(value) {
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function schemaConst(name) {
+  return `${name}Schema`;
+}
+
+// Component names a schema refers to, directly or through nested properties and items
+function collectRefs(schema, refs = new Set()) {
+  if (!schema || typeof schema !== 'object') {
+    return refs;
+  }
+  if (schema.$ref) {
+    refs.add(refName(schema.$ref));
+  }
+  for (const value of Object.values(schema.properties ?? {})) {
+    collectRefs(value, refs);
+  }
+  collectRefs(schema.items, refs);
+  return refs;
+}
+
+// Components ordered so every schema is declared after the ones it references
+function sortComponents(components) {
+  const ordered = [];
+  const visited = new Set();
+  const visit = name => {
+    if (visited.has(name)) {
+      return;
+    }
+    visited.add(name);
+    for (const ref of collectRefs(components[name])) {
+      visit(ref);
+    }
+    ordered.push(name);
+  };
+  Object.keys(components).forEach(visit);
+  return ordered;
+}
+
+function numberSchema(schema, coerce) {
+  let source = coerce ? 'z.coerce.number()' : 'z.number()';
+  if (schema.type === 'integer') {
+    source += '.int()';
+  }
+  if (schema.minimum !== undefined) {
+    source += `.min(${schema.minimum})`;
+  }
+  if (schema.maximum !== undefined) {
+    source += `.max(${schema.maximum})`;
+  }
+  return source;
+}
+
+function stringSchema(schema) {
+  if (schema.enum) {
+    return `z.enum([${schema.enum.map(quote).join(', ')}])`;
+  }
+  let source = 'z.string()';
+  if (schema.format === 'date-time') {
+    source += '.datetime({ offset: true })';
+  }
+  if (schema.minLength !== undefined) {
+    source += `.min(${schema.minLength})`;
+  }
+  if (schema.maxLength !== undefined) {
+    source += `.max(${schema.maxLength})`;
+  }
+  if (schema.pattern !== undefined) {
+    source += `.regex(new RegExp(${quote(schema.pattern)}))`;
+  }
+  return source;
+}
+
+function arraySchema(schema, indent, coerce) {
+  let source = `z.array(${zodFor(schema.items, indent, coerce)})`;
+  if (schema.minItems !== undefined) {
+    source += `.min(${schema.minItems})`;
+  }
+  if (schema.maxItems !== undefined) {
+    source += `.max(${schema.maxItems})`;
+  }
+  return source;
+}
+
+function objectSchema(properties, required, indent, coerce) {
+  const entries = Object.entries(properties);
+  if (entries.length === 0) {
+    return 'z.object({})';
+  }
+  const pad = '  '.repeat(indent + 1);
+  const lines = entries.map(([name, property]) => {
+    let source = zodFor(property, indent + 1, coerce);
+    if (property.default !== undefined) {
+      // Defaults apply before parsing, so query booleans default to their string form
+      const value = typeof property.default === 'string' || (coerce && property.type === 'boolean')
+        ? quote(property.default)
+        : JSON.stringify(property.default);
+      source += `.default(${value})`;
+    } else if (!required.includes(name)) {
+      source += '.optional()';
+    }
+    return `${pad}${name}: ${source},`;
+  });
+  return `z.object({\n${lines.join('\n')}\n${'  '.repeat(indent)}})`;
+}
+
+// `coerce` is set for query parameters, which always arrive as strings
+function zodFor(schema, indent = 0, coerce = false) {
+  if (schema.$ref) {
+    return schemaConst(refName(schema.$ref));
+  }
+  switch (schema.type) {
+    case 'object':
+      return objectSchema(schema.properties ?? {}, schema.required ?? [], indent, coerce);
+    case 'array':
+      return arraySchema(schema, indent, coerce);
+    case 'string':
+      return stringSchema(schema);
+    case 'number':
+    case 'integer':
+      return numberSchema(schema, coerce);
+    case 'boolean':
+      return coerce ? 'queryBoolean' : 'z.boolean()';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+function jsonSchemaRef(content) {
+  return content?.['application/json']?.schema?.$ref;
+}
+
+function collectOperations(paths) {
+  const operations = [];
+  for (const [path, item] of Object.entries(paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) {
+        continue;
+      }
+      const success = Object.entries(operation.responses ?? {}).find(([status]) => status.startsWith('2'));
+      const responseRef = jsonSchemaRef(success?.[1]?.content);
+      const bodyRef = jsonSchemaRef(operation.requestBody?.content);
+      const queryParameters = (operation.parameters ?? []).filter(parameter => parameter.in === 'query');
+
+      // Query schemas are named after the response, e.g. SearchPartsResponse -> SearchPartsQuery
+      const queryName = queryParameters.length > 0 && responseRef
+        ? refName(responseRef).replace(/Response$/, 'Query')
+        : undefined;
+
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        queryName,
+        query: queryParameters.length > 0
+          ? {
+              type: 'object',
+              properties: Object.fromEntries(queryParameters.map(parameter => [parameter.name, parameter.schema])),
+              required: queryParameters.filter(parameter => parameter.required).map(parameter => parameter.name)
+            }
+          : undefined,
+        body: bodyRef && refName(bodyRef),
+        response: responseRef && refName(responseRef)
+      });
+    }
+  }
+  return operations;
+}
+
+export function generateSchemas(specText) {
+  const spec = yaml.load(specText);
+  const components = spec.components?.schemas ?? {};
+  const operations = collectOperations(spec.paths ?? {});
+
+  const blocks = sortComponents(components).map(name =>
+    `export const ${schemaConst(name)} = ${zodFor(components[name])};`
+  );
+
+  for (const operation of operations.filter(operation => operation.queryName)) {
+    blocks.push(`export const ${schemaConst(operation.queryName)} = ${zodFor(operation.query, 0, true)};`);
+  }
+
+  const operationLines = operations.map(operation => {
+    const fields = [`method: '${operation.method}'`, `path: '${operation.path}'`];
+    if (operation.queryName) {
+      fields.push(`query: ${schemaConst(operation.queryName)}`);
+    }
+    if (operation.body) {
+      fields.push(`body: ${schemaConst(operation.body)}`);
+    }
+    if (operation.response) {
+      fields.push(`response: ${schemaConst(operation.response)}`);
+    }
+    return `  { ${fields.join(', ')} },`;
+  });
+
+  return [
+    '// Generated from docs/api-specification.yaml by scripts/generate-schemas.mjs. Do not edit;',
+    '// run `pnpm --filter @partsy/sdk generate:schemas` after changing the spec.',
+    "import { z } from 'zod';",
+    '',
+    '// Query strings carry booleans as "true" / "false"',
+    "const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');",
+    '',
+    blocks.join('\n\n'),
+    '',
+    'export interface OperationSchemas {',
+    '  method: string;',
+    '  // OpenAPI path template, e.g. /parts/{id}',
+    '  path: string;',
+    '  query?: z.ZodTypeAny;',
+    '  body?: z.ZodTypeAny;',
+    '  response?: z.ZodTypeAny;',
+    '}',
+    '',
+    'export const apiOperations: OperationSchemas[] = [',
+    ...operationLines,
+    '];',
+    ''
+  ].join('\n');
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  writeFileSync(OUTPUT_PATH, generateSchemas(readFileSync(SPEC_PATH, 'utf8')));
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
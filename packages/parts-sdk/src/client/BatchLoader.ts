@@ -0,0 +1,152 @@
+import { AbortedError } from '../errors.js';
+import { throwIfAborted } from '../infrastructure/Abort.js';
+
+export interface BatchLoaderOptions {
+  // Keys per batch call; larger batches are split
+  maxBatchSize?: number;
+  // Decides when queued keys are flushed; defaults to the next macrotask, so
+  // every load made in the same tick lands in one batch
+  schedule?: (flush: () => void) => void;
+}
+
+/**
+ * Batch function result for one key: the value, or the error its load rejects with
+ */
+export type BatchResult<V> = V | Error;
+
+// One key's load, shared by every caller asking for it while it is queued or in flight
+interface Load<V> {
+  promise: Promise<V>;
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+  // Callers still waiting; the key leaves its batch when the last one aborts
+  callers: number;
+  batch?: Batch<V>;
+}
+
+interface Batch<V> {
+  loads: Load<V>[];
+  controller: AbortController;
+}
+
+/**
+ * DataLoader-style batching: loads made in the same tick are collected and
+ * resolved by a single call to batchFn. Loads of a key that is already queued
+ * or in flight share its promise; nothing is kept once it settles.
+ * A key whose callers have all aborted is dropped from its batch, and a batch
+ * call whose callers have all aborted is cancelled through its signal.
+ */
+export class BatchLoader<K, V> {
+  private queue: K[] = [];
+  private loads = new Map<K, Load<V>>();
+  private readonly maxBatchSize: number;
+  private readonly schedule: (flush: () => void) => void;
+
+  constructor(
+    private batchFn: (keys: K[], signal: AbortSignal) => Promise<BatchResult<V>[]>,
+    options: BatchLoaderOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.schedule = options.schedule ?? (flush => setTimeout(flush, 0));
+  }
+
+  load(key: K, signal?: AbortSignal): Promise<V> {
+    throwIfAborted(signal);
+
+    let load = this.loads.get(key);
+    if (!load) {
+      let resolve!: (value: V) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<V>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      load = { promise, resolve, reject, callers: 0 };
+      this.loads.set(key, load);
+
+      if (this.queue.length === 0) {
+        this.schedule(() => this.flush());
+      }
+      this.queue.push(key);
+    }
+    load.callers++;
+
+    if (!signal) {
+      return load.promise;
+    }
+    const shared = load;
+    return new Promise<V>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new AbortedError(undefined, signal.reason));
+        this.release(key, shared);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private release(key: K, load: Load<V>): void {
+    if (--load.callers > 0) {
+      return;
+    }
+
+    if (!load.batch) {
+      // Still queued: nobody needs it any more
+      this.queue.splice(this.queue.indexOf(key), 1);
+      this.loads.delete(key);
+      return;
+    }
+
+    const { batch } = load;
+    if (batch.loads.every(({ callers }) => callers === 0)) {
+      // Later loads of these keys start afresh rather than join a cancelled call
+      for (const [loadKey, candidate] of this.loads) {
+        if (candidate.batch === batch) {
+          this.loads.delete(loadKey);
+        }
+      }
+      batch.controller.abort();
+    }
+  }
+
+  private flush(): void {
+    const keys = this.queue;
+    this.queue = [];
+    for (let start = 0; start < keys.length; start += this.maxBatchSize) {
+      void this.dispatch(keys.slice(start, start + this.maxBatchSize));
+    }
+  }
+
+  private async dispatch(keys: K[]): Promise<void> {
+    const batch: Batch<V> = { loads: keys.map(key => this.loads.get(key)!), controller: new AbortController() };
+    batch.loads.forEach(load => {
+      load.batch = batch;
+    });
+
+    let results: BatchResult<V>[] | undefined;
+    let failure: unknown;
+    try {
+      results = await this.batchFn(keys, batch.controller.signal);
+      if (results.length !== keys.length) {
+        throw new Error(`Batch function returned ${results.length} results for ${keys.length} keys`);
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    keys.forEach((key, index) => {
+      const load = batch.loads[index]!;
+      if (this.loads.get(key) === load) {
+        this.loads.delete(key);
+      }
+      const result = results?.[index];
+      if (failure !== undefined) {
+        load.reject(failure);
+      } else if (result instanceof Error) {
+        load.reject(result);
+      } else {
+        load.resolve(result as V);
+      }
+    });
+  }
+}
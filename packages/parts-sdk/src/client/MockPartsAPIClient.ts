@@ -1,16 +1,93 @@
 import {
-  PartsAPIClient as IPartsAPIClient,
+  PartsAPI,
   SearchPartsDTO,
   SearchPartsResponseDTO,
+  PaginationOptions,
   PartDTO,
   CreatePartDTO,
+  UpdatePartDTO,
+  PartSortOption,
+  SearchFacets,
+  FacetCount,
+  PriceBucket,
+  SuggestPartsOptions,
+  SuggestPartsResponseDTO,
+  RequestOptions,
+  CallOptions,
+  PartSuggestion,
+  HighlightRange,
 } from '../contracts/index.js';
+import { searchAllParts, searchPartsPages } from './Pagination.js';
+import { sleep } from '../infrastructure/Abort.js';
+import { ConflictError, NotFoundError } from '../errors.js';
+
+/**
+ * Simplified stand-in for the server's suggest endpoint: word-prefix matches on
+ * names and categories, separator-insensitive prefix matches on part numbers
+ */
+export function buildMockSuggestions(parts: PartDTO[], query: string, limit = 8): SuggestPartsResponseDTO {
+  const queryWords = query.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const partNumberPrefix = query.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+  const highlightWords = (text: string): HighlightRange[] | null => {
+    const highlights: HighlightRange[] = [];
+    for (const word of queryWords) {
+      const match = new RegExp(`(^|[^a-z0-9])(${word})`, 'i').exec(text);
+      if (!match) {
+        return null;
+      }
+      const start = match.index + match[1]!.length;
+      highlights.push({ start, end: start + word.length });
+    }
+    return highlights.sort((a, b) => a.start - b.start);
+  };
+
+  const highlightPartNumber = (partNumber: string): HighlightRange[] | null => {
+    if (!partNumberPrefix || !partNumber.replace(/[^a-z0-9]/gi, '').toUpperCase().startsWith(partNumberPrefix)) {
+      return null;
+    }
+    const highlights: HighlightRange[] = [];
+    let matched = 0;
+    for (let i = 0; i < partNumber.length && matched < partNumberPrefix.length; i++) {
+      if (/[^a-z0-9]/i.test(partNumber[i]!)) {
+        continue;
+      }
+      const last = highlights[highlights.length - 1];
+      if (last?.end === i) {
+        last.end++;
+      } else {
+        highlights.push({ start: i, end: i + 1 });
+      }
+      matched++;
+    }
+    return highlights;
+  };
+
+  if (queryWords.length === 0) {
+    return { suggestions: [] };
+  }
+
+  const suggestions: PartSuggestion[] = [];
+  const add = (suggestion: Omit<PartSuggestion, 'highlights'>, highlights: HighlightRange[] | null) => {
+    if (highlights) {
+      suggestions.push({ ...suggestion, highlights });
+    }
+  };
+
+  parts.forEach(p => add({ text: p.name, field: 'name', partId: p.id }, highlightWords(p.name)));
+  parts.forEach(p => add({ text: p.partNumber, field: 'partNumber', partId: p.id }, highlightPartNumber(p.partNumber)));
+  [...new Set(parts.map(p => p.category))].forEach(category =>
+    add({ text: category, field: 'category' }, highlightWords(category))
+  );
+
+  return { suggestions: suggestions.slice(0, limit) };
+}
 
 /**
  * Mock implementation of PartsAPIClient for testing and development
  * Follows Liskov Substitution Principle - can replace real client without breaking functionality
  */
-export class MockPartsAPIClient implements IPartsAPIClient {
+export class MockPartsAPIClient implements PartsAPI {
   private mockParts: PartDTO[] = [
     {
       id: '1',
@@ -52,8 +129,9 @@ export class MockPartsAPIClient implements IPartsAPIClient {
 
   constructor(private networkDelay: number = 300) {}
 
-  async createPart(dto: CreatePartDTO): Promise<PartDTO> {
-    await this.simulateNetworkDelay();
+  async createPart(dto: CreatePartDTO, options: CallOptions = {}): Promise<PartDTO> {
+    await this.simulateNetworkDelay(options.signal);
+    this.assertPartNumberFree(dto.partNumber);
     
     const newPart: PartDTO = {
       id: `mock-${Date.now()}`,
@@ -72,88 +150,71 @@ export class MockPartsAPIClient implements IPartsAPIClient {
     return newPart;
   }
 
-  async searchParts(dto: SearchPartsDTO): Promise<SearchPartsResponseDTO> {
-    await this.simulateNetworkDelay();
-    
-    let filteredParts = [...this.mockParts];
-    
-    // Apply filters
-    if (dto.name) {
-      const nameFilter = dto.name.toLowerCase();
-      filteredParts = filteredParts.filter(p => 
-        p.name.toLowerCase().includes(nameFilter)
-      );
-    }
-    
-    if (dto.partNumber) {
-      const partNumberFilter = dto.partNumber.toLowerCase();
-      filteredParts = filteredParts.filter(p => 
-        p.partNumber.toLowerCase().includes(partNumberFilter)
-      );
-    }
+  async searchParts(dto: SearchPartsDTO, options: RequestOptions = {}): Promise<SearchPartsResponseDTO> {
+    await this.simulateNetworkDelay(options.signal);
     
-    if (dto.category) {
-      const categoryFilter = dto.category.toLowerCase();
-      filteredParts = filteredParts.filter(p => 
-        p.category.toLowerCase() === categoryFilter
-      );
-    }
-
-    if (dto.status) {
-      filteredParts = filteredParts.filter(p => p.status === dto.status);
-    }
+    let filteredParts = this.filterParts(this.mockParts, dto);
 
-    if (dto.minPrice !== undefined) {
-      filteredParts = filteredParts.filter(p => p.price >= dto.minPrice!);
+    if (dto.sort?.length) {
+      filteredParts = this.sortParts(filteredParts, dto.sort);
     }
 
-    if (dto.maxPrice !== undefined) {
-      filteredParts = filteredParts.filter(p => p.price <= dto.maxPrice!);
-    }
-
-    if (dto.inStock) {
-      filteredParts = filteredParts.filter(p => p.quantity > 0);
-    }
-
-    // Apply pagination
-    const page = dto.page || 1;
+    // Apply pagination; mock cursors are just the offset of the page they point to
     const limit = dto.limit || 10;
-    const startIndex = (page - 1) * limit;
+    const cursorOffset = dto.cursor?.match(/^mock-(\d+)$/)?.[1];
+    const startIndex = cursorOffset !== undefined ? Number(cursorOffset) : ((dto.page || 1) - 1) * limit;
     const endIndex = startIndex + limit;
     const paginatedParts = filteredParts.slice(startIndex, endIndex);
 
     return {
       parts: paginatedParts,
       total: filteredParts.length,
-      page,
+      page: Math.floor(startIndex / limit) + 1,
       limit,
-      totalPages: Math.ceil(filteredParts.length / limit)
+      totalPages: Math.ceil(filteredParts.length / limit),
+      ...(endIndex < filteredParts.length && { nextCursor: `mock-${endIndex}` }),
+      ...(startIndex > 0 && { prevCursor: `mock-${Math.max(0, startIndex - limit)}` }),
+      ...(dto.includeFacets && { facets: this.computeFacets(dto) })
     };
   }
 
-  async getPartById(id: string): Promise<PartDTO> {
-    await this.simulateNetworkDelay();
+  searchAllParts(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<PartDTO> {
+    return searchAllParts(this, dto, options);
+  }
+
+  searchPartsPages(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<SearchPartsResponseDTO> {
+    return searchPartsPages(this, dto, options);
+  }
+
+  async suggestParts(query: string, options: SuggestPartsOptions = {}): Promise<SuggestPartsResponseDTO> {
+    await this.simulateNetworkDelay(options.signal);
+
+    return buildMockSuggestions(this.mockParts, query, options.limit);
+  }
+
+  async getPartById(id: string, options: RequestOptions = {}): Promise<PartDTO> {
+    await this.simulateNetworkDelay(options.signal);
     
     const part = this.mockParts.find(p => p.id === id);
     if (!part) {
-      throw new Error(`Part with id ${id} not found`);
+      throw this.notFound();
     }
     
     return { ...part }; // Return a copy
   }
 
-  async updatePart(id: string, dto: Partial<CreatePartDTO>): Promise<PartDTO> {
-    await this.simulateNetworkDelay();
+  async updatePart(id: string, dto: UpdatePartDTO, options: CallOptions = {}): Promise<PartDTO> {
+    await this.simulateNetworkDelay(options.signal);
     
     const partIndex = this.mockParts.findIndex(p => p.id === id);
     if (partIndex === -1) {
-      throw new Error(`Part with id ${id} not found`);
+      throw this.notFound();
     }
 
     const existingPart = this.mockParts[partIndex]!; // We know it exists due to the check above
     const updatedPart: PartDTO = {
       id: existingPart.id,
-      partNumber: dto.partNumber ?? existingPart.partNumber,
+      partNumber: existingPart.partNumber,
       name: dto.name ?? existingPart.name,
       description: dto.description ?? existingPart.description,
       price: dto.price ?? existingPart.price,
@@ -168,12 +229,12 @@ export class MockPartsAPIClient implements IPartsAPIClient {
     return { ...updatedPart };
   }
 
-  async deletePart(id: string): Promise<void> {
-    await this.simulateNetworkDelay();
+  async deletePart(id: string, options: CallOptions = {}): Promise<void> {
+    await this.simulateNetworkDelay(options.signal);
     
     const partIndex = this.mockParts.findIndex(p => p.id === id);
     if (partIndex === -1) {
-      throw new Error(`Part with id ${id} not found`);
+      throw this.notFound();
     }
 
     this.mockParts.splice(partIndex, 1);
@@ -200,7 +261,116 @@ export class MockPartsAPIClient implements IPartsAPIClient {
     return [...this.mockParts];
   }
 
-  private async simulateNetworkDelay(): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, this.networkDelay));
+  // Rejections shaped like the ones PartsAPIClient raises for the real server's answers
+  private notFound(): NotFoundError {
+    return new NotFoundError('Part not found', 404, 'Not Found', { code: 'PART_NOT_FOUND' });
+  }
+
+  private assertPartNumberFree(partNumber: string): void {
+    if (this.mockParts.some(p => p.partNumber === partNumber)) {
+      throw new ConflictError('Part with this part number already exists', 409, 'Conflict', { code: 'PART_ALREADY_EXISTS' });
+    }
+  }
+
+  private filterParts(parts: PartDTO[], dto: SearchPartsDTO): PartDTO[] {
+    let filteredParts = [...parts];
+
+    // Unranked stand-in for the server's text search: any word in any text field
+    if (dto.query) {
+      const words = dto.query.toLowerCase().split(/\s+/).filter(Boolean);
+      filteredParts = filteredParts.filter(p => {
+        const text = [p.name, p.description ?? '', p.partNumber, p.category].join(' ').toLowerCase();
+        return words.some(word => text.includes(word));
+      });
+    }
+    
+    if (dto.name) {
+      const nameFilter = dto.name.toLowerCase();
+      filteredParts = filteredParts.filter(p => 
+        p.name.toLowerCase().includes(nameFilter)
+      );
+    }
+    
+    if (dto.partNumber) {
+      // Fuzzy mode at least ignores separators, like the server's normalized part numbers
+      const normalize = (value: string) => (dto.fuzzy ? value.replace(/[^a-z0-9]/gi, '') : value).toLowerCase();
+      const partNumberFilter = normalize(dto.partNumber);
+      filteredParts = filteredParts.filter(p => 
+        normalize(p.partNumber).includes(partNumberFilter)
+      );
+    }
+    
+    if (dto.category) {
+      const categoryFilter = dto.category.toLowerCase();
+      filteredParts = filteredParts.filter(p => 
+        p.category.toLowerCase() === categoryFilter
+      );
+    }
+
+    if (dto.status) {
+      filteredParts = filteredParts.filter(p => p.status === dto.status);
+    }
+
+    if (dto.minPrice !== undefined) {
+      filteredParts = filteredParts.filter(p => p.price >= dto.minPrice!);
+    }
+
+    if (dto.maxPrice !== undefined) {
+      filteredParts = filteredParts.filter(p => p.price <= dto.maxPrice!);
+    }
+
+    if (dto.inStock) {
+      filteredParts = filteredParts.filter(p => p.quantity > 0);
+    }
+
+    return filteredParts;
+  }
+
+  // Mirrors the server: each facet is counted with every filter except its own
+  private computeFacets(dto: SearchPartsDTO): SearchFacets {
+    const countBy = (parts: PartDTO[], key: 'category' | 'status'): FacetCount[] => {
+      const counts = new Map<string, number>();
+      parts.forEach(part => counts.set(part[key], (counts.get(part[key]) ?? 0) + 1));
+      return [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    const boundaries = [...new Set(dto.priceBuckets ?? [50, 100, 500, 1000])].sort((a, b) => a - b);
+    const bandParts = this.filterParts(this.mockParts, { ...dto, minPrice: undefined, maxPrice: undefined });
+    const priceBuckets: PriceBucket[] = [...boundaries, undefined].map((max, index) => {
+      const min = index > 0 ? boundaries[index - 1] : undefined;
+      const count = bandParts.filter(p =>
+        (min === undefined || p.price >= min) && (max === undefined || p.price < max)
+      ).length;
+      return { min, max, count };
+    });
+
+    return {
+      categories: countBy(this.filterParts(this.mockParts, { ...dto, category: undefined }), 'category'),
+      statuses: countBy(this.filterParts(this.mockParts, { ...dto, status: undefined }), 'status'),
+      priceBuckets
+    };
+  }
+
+  private sortParts(parts: PartDTO[], sort: PartSortOption[]): PartDTO[] {
+    return [...parts].sort((a, b) => {
+      for (const { field, direction = 'asc' } of sort) {
+        const left = a[field];
+        const right = b[field];
+        const order = typeof left === 'string' && typeof right === 'string'
+          ? left.localeCompare(right, undefined, { sensitivity: 'base' })
+          : Number(left) - Number(right);
+        if (order !== 0) {
+          return direction === 'desc' ? -order : order;
+        }
+      }
+      return a.id.localeCompare(b.id);
+    });
+  }
+
+  // Aborting rejects with AbortedError, as the real client does
+  private async simulateNetworkDelay(signal?: AbortSignal): Promise<void> {
+    return sleep(this.networkDelay, signal);
   }
 }
@@ -0,0 +1,54 @@
+import { PaginationOptions, PartDTO, PartsReader, SearchPartsDTO, SearchPartsResponseDTO } from '../contracts/index.js';
+import { throwIfAborted } from '../infrastructure/Abort.js';
+
+// Largest page the search endpoint serves
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Walk search results page by page, starting from dto.page, until the last
+ * page or options.maxItems; the page that reaches maxItems is trimmed to fit.
+ * Follows nextCursor when the server hands one out, so parts added or removed
+ * mid-walk are neither skipped nor repeated
+ */
+export async function* searchPartsPages(
+  reader: Pick<PartsReader, 'searchParts'>,
+  dto: SearchPartsDTO,
+  options: PaginationOptions = {}
+): AsyncGenerator<SearchPartsResponseDTO> {
+  const { signal, maxItems = Infinity } = options;
+  const limit = Math.min(options.pageSize ?? dto.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  let page = dto.page ?? 1;
+  let cursor = dto.cursor;
+  let remaining = maxItems;
+
+  while (remaining > 0) {
+    throwIfAborted(signal);
+    // The page number still goes along so responses report where the walk is
+    const response = await reader.searchParts({ ...dto, page, limit, ...(cursor && { cursor }) }, { signal });
+    throwIfAborted(signal);
+
+    const parts = response.parts.slice(0, remaining);
+    remaining -= parts.length;
+    yield parts.length === response.parts.length ? response : { ...response, parts };
+
+    const done = cursor || response.nextCursor ? !response.nextCursor : page >= response.totalPages;
+    if (response.parts.length === 0 || done) {
+      return;
+    }
+    cursor = response.nextCursor;
+    page++;
+  }
+}
+
+/**
+ * Every part matching dto, fetched a page at a time as the caller iterates
+ */
+export async function* searchAllParts(
+  reader: Pick<PartsReader, 'searchParts'>,
+  dto: SearchPartsDTO,
+  options: PaginationOptions = {}
+): AsyncGenerator<PartDTO> {
+  for await (const page of searchPartsPages(reader, dto, options)) {
+    yield* page.parts;
+  }
+}
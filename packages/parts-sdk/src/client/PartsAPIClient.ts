@@ -1,23 +1,100 @@
 import {
   HttpClient,
   HttpRequestOptions,
+  HttpResponse,
+  RetryContext,
   RetryStrategy,
   AuthenticationStrategy,
   DataTransformer,
-  PartsAPIClient as IPartsAPIClient,
+  PartsAPI,
   SearchPartsDTO,
   SearchPartsResponseDTO,
+  PaginationOptions,
+  RequestOptions,
+  CallOptions,
   PartDTO,
+  BatchGetPartsResponseDTO,
   CreatePartDTO,
+  UpdatePartDTO,
+  SuggestPartsOptions,
+  SuggestPartsResponseDTO,
 } from '../contracts/index.js';
-import { APIError } from '../errors.js';
+import {
+  AbortedError,
+  APIError,
+  APIErrorDetails,
+  ConflictError,
+  FieldViolation,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  UnauthorizedError,
+} from '../errors.js';
+import { toSearchQueryString, toSuggestQueryString } from '../infrastructure/QuerySerializer.js';
+import { parseRetryAfter } from '../infrastructure/RetryStrategies.js';
+import { sleep, throwIfAborted } from '../infrastructure/Abort.js';
+import { searchAllParts, searchPartsPages } from './Pagination.js';
+import { BatchLoader, type BatchLoaderOptions, type BatchResult } from './BatchLoader.js';
+
+// The spec's Error and ValidationError bodies, as far as a failed response follows them
+interface ErrorBody {
+  message?: unknown;
+  code?: unknown;
+  requestId?: unknown;
+  errors?: unknown;
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * The error class for a failed response, carrying the code, request ID and
+ * field violations from its body
+ */
+function toAPIError(response: HttpResponse<unknown>): APIError {
+  const { status, statusText, headers } = response;
+  const body: ErrorBody = response.data && typeof response.data === 'object' ? response.data : {};
+  const message = optionalString(body.message) ?? `API request failed: ${status} ${statusText}`;
+  const details: APIErrorDetails = {
+    code: optionalString(body.code),
+    requestId: optionalString(body.requestId) ?? headerValue(headers, 'x-request-id'),
+    violations: Array.isArray(body.errors) ? body.errors as FieldViolation[] : undefined,
+  };
+
+  if (status === 401) {
+    return new UnauthorizedError(message, status, statusText, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status, statusText, details);
+  }
+  if (status === 409) {
+    return new ConflictError(message, status, statusText, details);
+  }
+  if (status === 429) {
+    const retryAfter = headerValue(headers, 'retry-after');
+    return new RateLimitedError(message, retryAfter ? parseRetryAfter(retryAfter) : undefined, statusText, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, statusText, details);
+  }
+  return new APIError(message, status, statusText, details);
+}
 
 export interface PartsAPIClientConfig {
   baseUrl: string;
+  // Per-attempt request timeout in milliseconds; the HTTP client's default when omitted
+  timeout?: number;
   httpClient: HttpClient;
   retryStrategy: RetryStrategy;
   authStrategy: AuthenticationStrategy;
   dataTransformer: DataTransformer;
+  // When set, getPartById calls made in the same tick go out as one POST /parts/batch
+  batching?: BatchLoaderOptions;
 }
 
 /**
@@ -29,93 +106,153 @@ export interface PartsAPIClientConfig {
  * Interface Segregation: Implements focused interfaces (PartsReader, PartsWriter)
  * Dependency Inversion: Depends on abstractions, not concretions
  */
-export class PartsAPIClient implements IPartsAPIClient {
-  constructor(private config: PartsAPIClientConfig) {}
+export class PartsAPIClient implements PartsAPI {
+  private partLoader?: BatchLoader<string, PartDTO>;
 
-  async searchParts(dto: SearchPartsDTO): Promise<SearchPartsResponseDTO> {
-    const queryParams = new URLSearchParams();
-    
-    Object.entries(dto).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        queryParams.append(key, String(value));
-      }
-    });
+  constructor(private config: PartsAPIClientConfig) {
+    if (config.batching) {
+      this.partLoader = new BatchLoader((ids, signal) => this.fetchPartsBatch(ids, signal), config.batching);
+    }
+  }
 
-    const path = queryParams.toString() ? `/parts/search?${queryParams.toString()}` : '/parts/search';
-    const response = await this.executeRequest<SearchPartsResponseDTO>('GET', path);
+  async searchParts(dto: SearchPartsDTO, options: RequestOptions = {}): Promise<SearchPartsResponseDTO> {
+    const query = toSearchQueryString(dto);
+    const path = query ? `/parts/search?${query}` : '/parts/search';
+    const response = await this.executeRequest<SearchPartsResponseDTO>('GET', path, undefined, options);
     return response;
   }
 
-  async getPartById(id: string): Promise<PartDTO> {
+  searchAllParts(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<PartDTO> {
+    return searchAllParts(this, dto, options);
+  }
+
+  searchPartsPages(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<SearchPartsResponseDTO> {
+    return searchPartsPages(this, dto, options);
+  }
+
+  async suggestParts(query: string, options: SuggestPartsOptions = {}): Promise<SuggestPartsResponseDTO> {
+    const path = `/parts/suggest?${toSuggestQueryString(query, options.limit)}`;
+    return this.executeRequest<SuggestPartsResponseDTO>('GET', path, undefined, options);
+  }
+
+  async getPartById(id: string, options: RequestOptions = {}): Promise<PartDTO> {
+    // Calls that ask for particular cache handling need their own GET
+    if (this.partLoader && !options.cache) {
+      return this.partLoader.load(id, options.signal);
+    }
     const path = `/parts/${encodeURIComponent(id)}`;
-    return this.executeRequest<PartDTO>('GET', path);
+    return this.executeRequest<PartDTO>('GET', path, undefined, options);
   }
 
-  async createPart(dto: CreatePartDTO): Promise<PartDTO> {
-    return this.executeRequest<PartDTO>('POST', '/parts', dto);
+  // Missing parts reject like a single GET would. A POST carries no validators, so
+  // batched loads are never answered from or stored in the HTTP cache
+  private async fetchPartsBatch(ids: string[], signal: AbortSignal): Promise<BatchResult<PartDTO>[]> {
+    const { parts } = await this.executeRequest<BatchGetPartsResponseDTO>('POST', '/parts/batch', { ids }, { signal });
+    const byId = new Map(parts.map(part => [part.id, part]));
+    return ids.map(id => byId.get(id) ?? new NotFoundError('Part not found', 404, 'Not Found', { code: 'PART_NOT_FOUND' }));
   }
 
-  async updatePart(id: string, dto: Partial<CreatePartDTO>): Promise<PartDTO> {
+  async createPart(dto: CreatePartDTO, options: CallOptions = {}): Promise<PartDTO> {
+    return this.executeRequest<PartDTO>('POST', '/parts', dto, options);
+  }
+
+  async updatePart(id: string, dto: UpdatePartDTO, options: CallOptions = {}): Promise<PartDTO> {
     const path = `/parts/${encodeURIComponent(id)}`;
-    return this.executeRequest<PartDTO>('PUT', path, dto);
+    return this.executeRequest<PartDTO>('PUT', path, dto, options);
   }
 
-  async deletePart(id: string): Promise<void> {
+  async deletePart(id: string, options: CallOptions = {}): Promise<void> {
     const path = `/parts/${encodeURIComponent(id)}`;
-    await this.executeRequest<void>('DELETE', path);
+    await this.executeRequest<void>('DELETE', path, undefined, options);
   }
 
   private async executeRequest<T>(
     method: string,
     path: string,
-    body?: unknown
+    body?: unknown,
+    { signal, cache }: RequestOptions = {}
   ): Promise<T> {
     const url = `${this.config.baseUrl}${path}`;
     
     let lastError: Error | undefined;
     let attempt = 1;
+    let replayedUnauthorized = false;
+    let failedResponse: HttpResponse<unknown> | undefined;
+    let previousDelayMs: number | undefined;
+    const startedAt = Date.now();
+    const { retryStrategy } = this.config;
 
     do {
+      retryStrategy.beforeAttempt?.();
+      failedResponse = undefined;
+      let authHeaders: Record<string, string> = {};
+
       try {
+        throwIfAborted(signal);
+
+        authHeaders = await this.config.authStrategy.authenticate({}, { signal, timeout: this.config.timeout });
         const options: HttpRequestOptions = {
           url,
           method: method as any,
-          headers: this.config.authStrategy.authenticate({}),
+          headers: authHeaders,
           body,
+          timeout: this.config.timeout,
+          signal,
+          cache,
         };
 
         const response = await this.config.httpClient.request<T>(options);
 
         if (response.status >= 400) {
-          throw new APIError(
-            `API request failed: ${response.status} ${response.statusText}`,
-            response.status,
-            response.statusText
-          );
+          failedResponse = response;
+          throw toAPIError(response);
         }
 
+        retryStrategy.onSuccess?.();
+
         // Transform the response data
-        const transformedData = this.config.dataTransformer.transform(response.data) as T;
+        const transformedData = this.config.dataTransformer.transform(response.data, { method, path }) as T;
         return transformedData;
 
       } catch (error) {
         lastError = error as Error;
-        
-        if (!this.config.retryStrategy.shouldRetry(attempt, lastError)) {
+
+        // The caller giving up is never retried and says nothing about the server.
+        // HTTP clients may reject with anything on abort; callers always get AbortedError
+        if (signal?.aborted) {
+          retryStrategy.onAbort?.();
+          throw lastError instanceof AbortedError ? lastError : new AbortedError(undefined, signal.reason);
+        }
+
+        retryStrategy.onFailure?.(lastError);
+
+        // Stale credentials: renew them and replay once without using up a retry.
+        // The token endpoint refusing us (AuthenticationError) is not fixed by that
+        const { authStrategy } = this.config;
+        if (authStrategy.refresh && !replayedUnauthorized && lastError instanceof UnauthorizedError) {
+          replayedUnauthorized = true;
+          await authStrategy.refresh(authHeaders, { signal, timeout: this.config.timeout });
+          continue;
+        }
+
+        const context: RetryContext = {
+          response: failedResponse,
+          elapsedMs: Date.now() - startedAt,
+          previousDelayMs,
+        };
+
+        if (!retryStrategy.shouldRetry(attempt, lastError, context)) {
           throw lastError;
         }
 
-        // Wait before retry
-        const delay = this.config.retryStrategy.getRetryDelay(attempt);
-        await this.delay(delay);
+        // Wait before retry; aborting cuts the wait short
+        const delay = retryStrategy.getRetryDelay(attempt, context);
+        previousDelayMs = delay;
+        await sleep(delay, signal);
         attempt++;
       }
-    } while (attempt <= this.config.retryStrategy.getMaxAttempts());
+    } while (attempt <= retryStrategy.getMaxAttempts());
 
     throw lastError;
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
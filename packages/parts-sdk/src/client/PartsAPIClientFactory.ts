@@ -1,38 +1,75 @@
 import { PartsAPIClient, PartsAPIClientConfig } from './PartsAPIClient.js';
+import { MockPartsAPIClient } from './MockPartsAPIClient.js';
+import type { BatchLoaderOptions } from './BatchLoader.js';
+import { getAPIConfig } from '../config.js';
 import { FetchHttpClient } from '../infrastructure/FetchHttpClient.js';
+import { DeduplicatingMiddleware, MiddlewareHttpClient } from '../infrastructure/Middlewares.js';
+import { CachingMiddleware, MemoryCacheStore } from '../infrastructure/HttpCache.js';
+import { CircuitBreakerRetryStrategy, type CircuitBreakerOptions } from '../infrastructure/CircuitBreaker.js';
 import { 
   ExponentialBackoffRetryStrategy, 
   NoRetryStrategy, 
-  FixedDelayRetryStrategy 
+  FixedDelayRetryStrategy,
+  type BackoffRetryOptions,
+  type RetryOptions
 } from '../infrastructure/RetryStrategies.js';
 import { 
   BearerTokenAuthStrategy, 
   ApiKeyAuthStrategy, 
   NoAuthStrategy,
-  BasicAuthStrategy 
+  BasicAuthStrategy,
+  OAuth2ClientCredentialsStrategy,
+  type OAuth2ClientCredentialsConfig
 } from '../infrastructure/AuthStrategies.js';
 import { 
   DateTransformer, 
   IdentityTransformer, 
-  CompositeTransformer 
+  CompositeTransformer,
+  ResponseValidationTransformer
 } from '../infrastructure/DataTransformers.js';
 import {
   HttpClient,
   RetryStrategy,
   AuthenticationStrategy,
   DataTransformer,
+  HttpMiddleware,
+  CacheStore,
 } from '../contracts/index.js';
 
+export interface ClientFactoryOptions {
+  environment?: string;
+  apiKey?: string;
+  timeout?: number;
+  retryAttempts?: number;
+  customBaseUrl?: string;
+}
+
+// Flat configuration accepted by createPartsAPIClient
+export interface PartsAPIConfig {
+  baseUrl: string;
+  apiKey?: string;
+  timeout?: number;
+  retryAttempts?: number;
+  retryDelay?: number;
+}
+
 /**
  * Builder pattern for creating PartsAPIClient with different configurations
  * Follows Builder pattern and provides fluent interface
  */
 export class PartsAPIClientBuilder {
   private baseUrl: string = '';
+  private timeout?: number;
   private httpClient: HttpClient = new FetchHttpClient();
   private retryStrategy: RetryStrategy = new ExponentialBackoffRetryStrategy();
   private authStrategy: AuthenticationStrategy = new NoAuthStrategy();
   private dataTransformer: DataTransformer = new DateTransformer();
+  private validateResponses = false;
+  private middlewares: HttpMiddleware[] = [];
+  private circuitBreaker?: CircuitBreakerOptions;
+  private cacheStore?: CacheStore;
+  private deduplicate = false;
+  private batching?: BatchLoaderOptions;
 
   /**
    * Set the base URL for the API
@@ -42,6 +79,14 @@ export class PartsAPIClientBuilder {
     return this;
   }
 
+  /**
+   * Set the per-attempt request timeout in milliseconds
+   */
+  setTimeout(ms: number): PartsAPIClientBuilder {
+    this.timeout = ms;
+    return this;
+  }
+
   /**
    * Set a custom HTTP client
    */
@@ -50,19 +95,59 @@ export class PartsAPIClientBuilder {
     return this;
   }
 
+  /**
+   * Add a middleware around every HTTP attempt; middlewares run in the order
+   * they are added, the first one outermost
+   */
+  use(middleware: HttpMiddleware): PartsAPIClientBuilder {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Revalidate GET responses with ETags and serve 304s from the store; the
+   * cache sits outside other middlewares, so they see the 304 itself
+   */
+  withCache(store: CacheStore = new MemoryCacheStore()): PartsAPIClientBuilder {
+    this.cacheStore = store;
+    return this;
+  }
+
+  /**
+   * Share one in-flight request between identical concurrent GETs
+   */
+  withRequestDeduplication(): PartsAPIClientBuilder {
+    this.deduplicate = true;
+    return this;
+  }
+
+  /**
+   * Collect getPartById calls made in the same tick into one POST /parts/batch.
+   * Batched calls bypass withCache(); pass a `cache` option to get a cached GET
+   */
+  withBatching(options: BatchLoaderOptions = {}): PartsAPIClientBuilder {
+    this.batching = options;
+    return this;
+  }
+
   /**
    * Configure exponential backoff retry strategy
    */
-  withExponentialBackoffRetry(maxAttempts = 3, baseDelay = 1000, maxDelay = 10000): PartsAPIClientBuilder {
-    this.retryStrategy = new ExponentialBackoffRetryStrategy(maxAttempts, baseDelay, maxDelay);
+  withExponentialBackoffRetry(
+    maxAttempts = 3,
+    baseDelay = 1000,
+    maxDelay = 10000,
+    options: BackoffRetryOptions = {}
+  ): PartsAPIClientBuilder {
+    this.retryStrategy = new ExponentialBackoffRetryStrategy(maxAttempts, baseDelay, maxDelay, options);
     return this;
   }
 
   /**
    * Configure fixed delay retry strategy
    */
-  withFixedDelayRetry(maxAttempts = 3, delay = 1000): PartsAPIClientBuilder {
-    this.retryStrategy = new FixedDelayRetryStrategy(maxAttempts, delay);
+  withFixedDelayRetry(maxAttempts = 3, delay = 1000, options: RetryOptions = {}): PartsAPIClientBuilder {
+    this.retryStrategy = new FixedDelayRetryStrategy(maxAttempts, delay, options);
     return this;
   }
 
@@ -82,6 +167,15 @@ export class PartsAPIClientBuilder {
     return this;
   }
 
+  /**
+   * Wrap the retry strategy, whichever is configured, in a circuit breaker
+   * that fails fast with CircuitOpenError while the backend is down
+   */
+  withCircuitBreaker(options: CircuitBreakerOptions = {}): PartsAPIClientBuilder {
+    this.circuitBreaker = options;
+    return this;
+  }
+
   /**
    * Configure Bearer token authentication
    */
@@ -106,6 +200,15 @@ export class PartsAPIClientBuilder {
     return this;
   }
 
+  /**
+   * Configure OAuth2 client credentials; tokens are cached and refreshed
+   * automatically, and a 401 forces a refresh plus one replay
+   */
+  withOAuth2ClientCredentials(config: OAuth2ClientCredentialsConfig): PartsAPIClientBuilder {
+    this.authStrategy = new OAuth2ClientCredentialsStrategy(config);
+    return this;
+  }
+
   /**
    * Set custom authentication strategy
    */
@@ -146,6 +249,15 @@ export class PartsAPIClientBuilder {
     return this;
   }
 
+  /**
+   * Check every response against the OpenAPI spec before it is transformed;
+   * mismatches reject with a ValidationError naming the offending fields
+   */
+  withResponseValidation(): PartsAPIClientBuilder {
+    this.validateResponses = true;
+    return this;
+  }
+
   /**
    * Build the configured PartsAPIClient
    */
@@ -154,12 +266,26 @@ export class PartsAPIClientBuilder {
       throw new Error('Base URL is required. Use setBaseUrl() to configure it.');
     }
 
+    const middlewares = [
+      ...(this.deduplicate ? [new DeduplicatingMiddleware()] : []),
+      ...(this.cacheStore ? [new CachingMiddleware(this.cacheStore)] : []),
+      ...this.middlewares,
+    ];
+
     const config: PartsAPIClientConfig = {
       baseUrl: this.baseUrl,
-      httpClient: this.httpClient,
-      retryStrategy: this.retryStrategy,
+      timeout: this.timeout,
+      httpClient: middlewares.length > 0
+        ? new MiddlewareHttpClient(this.httpClient, middlewares)
+        : this.httpClient,
+      retryStrategy: this.circuitBreaker
+        ? new CircuitBreakerRetryStrategy(this.retryStrategy, this.circuitBreaker)
+        : this.retryStrategy,
       authStrategy: this.authStrategy,
-      dataTransformer: this.dataTransformer,
+      dataTransformer: this.validateResponses
+        ? new CompositeTransformer([new ResponseValidationTransformer(), this.dataTransformer])
+        : this.dataTransformer,
+      batching: this.batching,
     };
 
     return new PartsAPIClient(config);
@@ -170,6 +296,33 @@ export class PartsAPIClientBuilder {
  * Factory methods for common configurations
  */
 export class PartsAPIClientFactory {
+  /**
+   * Create a client for a named environment from config.ts, optionally overriding its settings
+   */
+  static create(options: ClientFactoryOptions = {}): PartsAPIClient {
+    const { environment = 'development', apiKey, customBaseUrl, timeout, retryAttempts } = options;
+    const envConfig = getAPIConfig(environment);
+
+    const builder = new PartsAPIClientBuilder()
+      .setBaseUrl(customBaseUrl || envConfig.baseUrl)
+      .setTimeout(timeout || envConfig.timeout || 5000)
+      .withExponentialBackoffRetry(retryAttempts || envConfig.retryAttempts || 3)
+      .withDateTransformation();
+
+    if (apiKey) {
+      builder.withBearerToken(apiKey);
+    }
+
+    return builder.build();
+  }
+
+  /**
+   * Create a client backed by in-memory sample parts
+   */
+  static createWithMockData(): MockPartsAPIClient {
+    return new MockPartsAPIClient();
+  }
+
   /**
    * Create a simple client with basic configuration
    */
@@ -217,14 +370,8 @@ export class PartsAPIClientFactory {
   /**
    * Create a mock client for testing
    */
-  static createMock(): PartsAPIClient {
-    // This would return a mock implementation
-    // For now, we'll return the same as development
-    return new PartsAPIClientBuilder()
-      .setBaseUrl('mock://api')
-      .withNoRetry()
-      .withNoTransformation()
-      .build();
+  static createMock(): MockPartsAPIClient {
+    return new MockPartsAPIClient();
   }
 
   /**
@@ -234,3 +381,21 @@ export class PartsAPIClientFactory {
     return new PartsAPIClientBuilder();
   }
 }
+
+/**
+ * Create a client from flat settings: bearer auth when apiKey is set and
+ * exponential backoff starting at retryDelay
+ */
+export function createPartsAPIClient(config: PartsAPIConfig): PartsAPIClient {
+  const builder = new PartsAPIClientBuilder()
+    .setBaseUrl(config.baseUrl)
+    .setTimeout(config.timeout ?? 5000)
+    .withExponentialBackoffRetry(config.retryAttempts ?? 3, config.retryDelay ?? 1000)
+    .withDateTransformation();
+
+  if (config.apiKey) {
+    builder.withBearerToken(config.apiKey);
+  }
+
+  return builder.build();
+}
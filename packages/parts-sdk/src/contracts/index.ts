@@ -10,6 +10,8 @@ export interface HttpRequestOptions {
   body?: unknown;
   timeout?: number;
   signal?: AbortSignal;
+  // How a caching middleware, if any, treats this request
+  cache?: CacheMode;
 }
 
 export interface HttpResponse<T = unknown> {
@@ -21,39 +23,115 @@ export interface HttpResponse<T = unknown> {
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+// Sends a request through the rest of the middleware chain and the HTTP client
+export type HttpHandler = (options: HttpRequestOptions) => Promise<HttpResponse<unknown>>;
+
+// Middleware Abstraction: runs around every HTTP attempt, Koa-style
+export interface HttpMiddleware {
+  handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>>;
+}
+
+// 'default' revalidates stored responses with If-None-Match, 'reload' skips the
+// lookup but stores the fresh response, 'no-store' bypasses the cache entirely
+export type CacheMode = 'default' | 'reload' | 'no-store';
+
+// A stored GET response and the validators used to revalidate it
+export interface CacheEntry {
+  data: unknown;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Cache Store Abstraction: pluggable storage for conditional requests, keyed by URL and
+// request headers
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+// What a retry strategy knows about the request that just failed
+export interface RetryContext {
+  // The failed response when the server answered, for headers such as Retry-After
+  response?: HttpResponse<unknown>;
+  // Time since the first attempt started, including earlier waits
+  elapsedMs: number;
+  // Delay before the failed attempt; undefined after the first attempt
+  previousDelayMs?: number;
+}
+
 // Retry Strategy Abstraction
 export interface RetryStrategy {
-  shouldRetry(attempt: number, error: Error): boolean;
-  getRetryDelay(attempt: number): number;
+  shouldRetry(attempt: number, error: Error, context?: RetryContext): boolean;
+  getRetryDelay(attempt: number, context?: RetryContext): number;
   getMaxAttempts(): number;
+  // Optional hooks for stateful strategies; beforeAttempt may throw to fail fast
+  beforeAttempt?(): void;
+  onSuccess?(): void;
+  onFailure?(error: Error): void;
+  // The caller aborted an attempt, which therefore ends without onSuccess or onFailure
+  onAbort?(): void;
+}
+
+// The request credentials are needed for, so strategies that fetch them can honour
+// its cancellation and timeout
+export interface AuthenticationContext {
+  signal?: AbortSignal;
+  // Milliseconds; the client's request timeout
+  timeout?: number;
 }
 
 // Authentication Strategy Abstraction
 export interface AuthenticationStrategy {
-  authenticate(headers: Record<string, string>): Record<string, string>;
+  authenticate(headers: Record<string, string>, context?: AuthenticationContext): Record<string, string> | Promise<Record<string, string>>;
+  // Renew credentials after a 401 to a request sent with rejectedHeaders; when present
+  // the client replays the request once afterwards
+  refresh?(rejectedHeaders: Record<string, string>, context?: AuthenticationContext): Promise<void>;
+}
+
+// The request a response belongs to, for transformers that depend on the endpoint
+export interface TransformContext {
+  method: string;
+  // Request path relative to the base URL, including any query string
+  path: string;
 }
 
 // Data Transformer Abstraction
 export interface DataTransformer<TInput = unknown, TOutput = unknown> {
-  transform(data: TInput): TOutput;
+  transform(data: TInput, context?: TransformContext): TOutput;
 }
 
 // Parts API Client Interface Segregation
 export interface PartsReader {
-  searchParts(dto: SearchPartsDTO): Promise<SearchPartsResponseDTO>;
-  getPartById(id: string): Promise<PartDTO>;
+  searchParts(dto: SearchPartsDTO, options?: RequestOptions): Promise<SearchPartsResponseDTO>;
+  // Iterate every match, requesting pages lazily
+  searchAllParts(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<PartDTO>;
+  searchPartsPages(dto: SearchPartsDTO, options?: PaginationOptions): AsyncIterable<SearchPartsResponseDTO>;
+  getPartById(id: string, options?: RequestOptions): Promise<PartDTO>;
+  suggestParts(query: string, options?: SuggestPartsOptions): Promise<SuggestPartsResponseDTO>;
 }
 
 export interface PartsWriter {
-  createPart(dto: CreatePartDTO): Promise<PartDTO>;
-  updatePart(id: string, dto: Partial<CreatePartDTO>): Promise<PartDTO>;
-  deletePart(id: string): Promise<void>;
+  createPart(dto: CreatePartDTO, options?: CallOptions): Promise<PartDTO>;
+  updatePart(id: string, dto: UpdatePartDTO, options?: CallOptions): Promise<PartDTO>;
+  deletePart(id: string, options?: CallOptions): Promise<void>;
 }
 
-export interface PartsAPIClient extends PartsReader, PartsWriter {}
+// Everything a parts client can do; implemented by PartsAPIClient and MockPartsAPIClient
+export interface PartsAPI extends PartsReader, PartsWriter {}
+
+export type PartSortField = 'name' | 'partNumber' | 'price' | 'quantity' | 'createdAt' | 'updatedAt';
+
+export interface PartSortOption {
+  field: PartSortField;
+  direction?: 'asc' | 'desc';
+}
 
-// Forward declarations - will import from index.ts
 export interface SearchPartsDTO {
+  // Free text matched against name, description, part number and category
+  query?: string;
   name?: string;
   partNumber?: string;
   category?: string;
@@ -61,8 +139,32 @@ export interface SearchPartsDTO {
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
+  // Tolerate typos and ignore separators in part numbers, e.g. "BRK002" finds "BRK-002"
+  fuzzy?: boolean;
+  sort?: PartSortOption[];
   page?: number;
   limit?: number;
+  // nextCursor or prevCursor of an earlier response with the same sort; takes precedence over page
+  cursor?: string;
+  includeFacets?: boolean;
+  priceBuckets?: number[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucket {
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: FacetCount[];
+  statuses: FacetCount[];
+  priceBuckets: PriceBucket[];
 }
 
 export interface PartDTO {
@@ -72,10 +174,12 @@ export interface PartDTO {
   description?: string;
   price: number;
   quantity: number;
-  status: string;
+  status: 'ACTIVE' | 'INACTIVE' | 'DISCONTINUED';
   category: string;
   createdAt: Date;
   updatedAt: Date;
+  // Relevance of the hit, present when searching with `query`
+  score?: number;
 }
 
 export interface CreatePartDTO {
@@ -87,10 +191,66 @@ export interface CreatePartDTO {
   category: string;
 }
 
+// The part number is fixed once a part is created
+export type UpdatePartDTO = Partial<Omit<CreatePartDTO, 'partNumber'>>;
+
 export interface SearchPartsResponseDTO {
   parts: PartDTO[];
   total: number;
   page: number;
   limit: number;
   totalPages: number;
+  // Opaque positions of the neighbouring pages, stable while parts are added or removed
+  nextCursor?: string;
+  prevCursor?: string;
+  facets?: SearchFacets;
+}
+
+// POST /parts/batch; getPartById calls are batched into it when enabled
+export interface BatchGetPartsResponseDTO {
+  parts: PartDTO[];
+  // Requested IDs with no matching part
+  notFound: string[];
+}
+
+export interface PaginationOptions {
+  // Parts per request, at most 100; defaults to the search's limit, else 100
+  pageSize?: number;
+  // Stop after this many parts
+  maxItems?: number;
+  // Checked between pages; aborting rejects the iteration
+  signal?: AbortSignal;
+}
+
+// Per-call settings for any operation
+export interface CallOptions {
+  // Aborts the call, retries and backoff waits included, with an AbortedError
+  signal?: AbortSignal;
+}
+
+// Per-call settings for read operations
+export interface RequestOptions extends CallOptions {
+  // e.g. 'reload' to skip the cached copy after an out-of-band change
+  cache?: CacheMode;
+}
+
+export interface SuggestPartsOptions extends RequestOptions {
+  limit?: number;
+}
+
+// Character range [start, end) of the suggestion text that matched the query
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface PartSuggestion {
+  text: string;
+  field: 'name' | 'partNumber' | 'category';
+  partId?: string;
+  highlights: HighlightRange[];
+}
+
+export interface SuggestPartsResponseDTO {
+  suggestions: PartSuggestion[];
 }
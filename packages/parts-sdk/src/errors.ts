@@ -1,12 +1,99 @@
+// What a failed response's Error / ValidationError body and headers say about it
+export interface APIErrorDetails {
+  // Machine-readable code from the body, e.g. PART_NOT_FOUND or VALIDATION_ERROR
+  code?: string;
+  // The X-Request-ID of the failed request, for matching against server logs
+  requestId?: string;
+  // Field-level problems reported with a 400 ValidationError body
+  violations?: FieldViolation[];
+}
+
 export class APIError extends Error {
+  public code?: string;
+  public requestId?: string;
+  public violations: FieldViolation[];
+  /**
+   * @deprecated The client never sets it; use status, code, requestId and violations.
+   * Kept for code that still passes a Response as the fourth constructor argument
+   */
+  public response?: Response;
+
   constructor(
     message: string,
     public status?: number,
     public statusText?: string,
-    public response?: Response
+    details: APIErrorDetails | Response = {}
   ) {
     super(message);
     this.name = 'APIError';
+    const legacyResponse = typeof Response !== 'undefined' && details instanceof Response ? details : undefined;
+    const { code, requestId, violations = [] }: APIErrorDetails = legacyResponse ? {} : details as APIErrorDetails;
+    this.response = legacyResponse;
+    this.code = code;
+    this.requestId = requestId;
+    this.violations = violations;
+  }
+}
+
+// 401 from the API: missing or rejected credentials
+export class UnauthorizedError extends APIError {
+  constructor(message: string, status = 401, statusText?: string, details?: APIErrorDetails) {
+    super(message, status, statusText, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 404: the part, or the route, does not exist
+export class NotFoundError extends APIError {
+  constructor(message: string, status = 404, statusText?: string, details?: APIErrorDetails) {
+    super(message, status, statusText, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409: e.g. creating a part with a part number that is already taken
+export class ConflictError extends APIError {
+  constructor(message: string, status = 409, statusText?: string, details?: APIErrorDetails) {
+    super(message, status, statusText, details);
+    this.name = 'ConflictError';
+  }
+}
+
+// 429; retryAfterMs is set when the response said when to come back
+export class RateLimitedError extends APIError {
+  constructor(
+    message: string,
+    public retryAfterMs?: number,
+    statusText?: string,
+    details?: APIErrorDetails
+  ) {
+    super(message, 429, statusText, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// 5xx: the server failed, not the request
+export class ServerError extends APIError {
+  constructor(message: string, status = 500, statusText?: string, details?: APIErrorDetails) {
+    super(message, status, statusText, details);
+    this.name = 'ServerError';
+  }
+}
+
+// The auth server turned down a token request, or could not be reached; then cause is
+// the NetworkError or TimeoutError and status is undefined
+export class AuthenticationError extends APIError {
+  constructor(message: string, status?: number, statusText?: string, public cause?: Error) {
+    super(message, status, statusText);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Thrown without contacting the server while a circuit breaker is open
+export class CircuitOpenError extends Error {
+  constructor(message: string, public retryAfterMs: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
   }
 }
 
@@ -17,11 +104,36 @@ export class NetworkError extends Error {
   }
 }
 
+// The caller's AbortSignal fired; reason is the value it was aborted with
+export class AbortedError extends Error {
+  constructor(message = 'Request was aborted', public reason?: unknown) {
+    super(message);
+    this.name = 'AbortedError';
+  }
+}
+
+// No response arrived within the per-attempt timeout
+export class TimeoutError extends Error {
+  constructor(message: string, public timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// One failed rule, shaped like the items of the spec's ValidationError `errors` array
+export interface FieldViolation {
+  // Dotted path to the offending value, e.g. `parts[0].price`; empty for the value itself
+  field: string;
+  message: string;
+  code: string;
+}
+
 export class ValidationError extends Error {
   constructor(
     message: string,
     public field?: string,
-    public code?: string
+    public code?: string,
+    public violations: FieldViolation[] = []
   ) {
     super(message);
     this.name = 'ValidationError';
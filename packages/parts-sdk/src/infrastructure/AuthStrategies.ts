@@ -1,4 +1,6 @@
-import { AuthenticationStrategy } from '../contracts/index.js';
+import { AuthenticationContext, AuthenticationStrategy } from '../contracts/index.js';
+import { AuthenticationError, NetworkError, TimeoutError } from '../errors.js';
+import { abortable } from './Abort.js';
 
 /**
  * Bearer token authentication strategy
@@ -55,3 +57,137 @@ export class BasicAuthStrategy implements AuthenticationStrategy {
     };
   }
 }
+
+export interface OAuth2ClientCredentialsConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  // Extra form fields some providers require, e.g. { audience: 'https://api.partsy.com' }
+  extraParams?: Record<string, string>;
+  // Renew tokens this long before they expire; at most half their lifetime, so that
+  // short-lived tokens still get reused
+  refreshMarginMs?: number;
+}
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number;
+  lifetimeMs: number;
+}
+
+/**
+ * OAuth2 client credentials strategy
+ * Fetches tokens from the token endpoint and caches them until shortly before
+ * expiry; concurrent requests share a single token fetch
+ */
+export class OAuth2ClientCredentialsStrategy implements AuthenticationStrategy {
+  private token?: CachedToken;
+  private pendingToken?: Promise<CachedToken>;
+
+  constructor(private config: OAuth2ClientCredentialsConfig) {}
+
+  async authenticate(headers: Record<string, string>, context: AuthenticationContext = {}): Promise<Record<string, string>> {
+    const token = this.isFresh(this.token) ? this.token : await this.fetchToken(context);
+    return {
+      ...headers,
+      'Authorization': this.toHeader(token),
+    };
+  }
+
+  async refresh(rejectedHeaders: Record<string, string>, context: AuthenticationContext = {}): Promise<void> {
+    // Requests sent with the same token may all come back 401; the first renews it and
+    // the rest replay with the token that replaced it
+    if (this.token && this.toHeader(this.token) !== rejectedHeaders['Authorization']) {
+      return;
+    }
+    this.token = undefined;
+    await this.fetchToken(context);
+  }
+
+  private toHeader(token: CachedToken): string {
+    return `${token.tokenType} ${token.accessToken}`;
+  }
+
+  private isFresh(token: CachedToken | undefined): token is CachedToken {
+    if (!token) {
+      return false;
+    }
+    const margin = Math.min(this.config.refreshMarginMs ?? 30000, token.lifetimeMs / 2);
+    return Date.now() < token.expiresAt - margin;
+  }
+
+  // The fetch is shared, so one caller aborting only stops that caller waiting for it
+  private fetchToken({ signal, timeout = 5000 }: AuthenticationContext): Promise<CachedToken> {
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestToken(timeout)
+        .then(token => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          this.pendingToken = undefined;
+        });
+    }
+    return abortable(this.pendingToken, signal);
+  }
+
+  private async requestToken(timeout: number): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, scope, extraParams } = this.config;
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: clientId,
+      client_secret: clientSecret,
+      ...(scope ? { scope } : {}),
+      ...extraParams,
+    });
+    const signal = AbortSignal.timeout(timeout);
+    // Wrapped so that an unreachable token endpoint isn't mistaken for the API failing
+    const timedOut = () => {
+      const message = `Token request timed out after ${timeout}ms`;
+      return new AuthenticationError(message, undefined, undefined, new TimeoutError(message, timeout));
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+        },
+        body,
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        throw timedOut();
+      }
+      const cause = new NetworkError('Token endpoint unreachable', error instanceof Error ? error : undefined);
+      throw new AuthenticationError(cause.message, undefined, undefined, cause);
+    }
+
+    if (!response.ok) {
+      throw new AuthenticationError(`Token request failed: ${response.status} ${response.statusText}`, response.status, response.statusText);
+    }
+
+    // The timeout covers reading the body too
+    const data = await response.json().catch((error: unknown) => {
+      throw signal.aborted ? timedOut() : error;
+    }) as { access_token?: unknown; token_type?: unknown; expires_in?: unknown };
+    if (typeof data.access_token !== 'string') {
+      throw new AuthenticationError('Token response has no access_token', response.status, response.statusText);
+    }
+
+    // Tokens without expires_in are kept for an hour
+    const expiresIn = typeof data.expires_in === 'number' ? data.expires_in : 3600;
+    return {
+      accessToken: data.access_token,
+      // Token types are case-insensitive; send the conventional spelling
+      tokenType: typeof data.token_type === 'string' && data.token_type.toLowerCase() !== 'bearer' ? data.token_type : 'Bearer',
+      expiresAt: Date.now() + expiresIn * 1000,
+      lifetimeMs: expiresIn * 1000,
+    };
+  }
+}
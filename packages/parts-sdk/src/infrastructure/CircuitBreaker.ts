@@ -0,0 +1,135 @@
+import { RetryContext, RetryStrategy } from '../contracts/index.js';
+import { APIError, AuthenticationError, CircuitOpenError, NetworkError, TimeoutError } from '../errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  // Consecutive failures when the change happened
+  failures: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold?: number;
+  // How long the circuit stays open before letting a trial request through
+  cooldownMs?: number;
+  // Which errors count against the server; by default network errors, timeouts and 5xx
+  // responses. Errors from the token endpoint never count, see AuthenticationError
+  isFailure?: (error: Error) => boolean;
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+function isServerFailure(error: Error): boolean {
+  if (error instanceof APIError) {
+    return error.status === undefined || error.status >= 500;
+  }
+  // HTTP clients report connection failures and timeouts with these; anything else
+  // thrown on the way is a bug on our side, not a sign of an unhealthy server
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * Circuit breaker around any retry strategy
+ * After failureThreshold consecutive failures the circuit opens and requests
+ * fail fast with CircuitOpenError. Once the cool-down has passed it half-opens:
+ * a single trial request goes through and decides whether it closes again or
+ * reopens; the rest fail fast until it has.
+ */
+export class CircuitBreakerRetryStrategy implements RetryStrategy {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly isFailure: (error: Error) => boolean;
+
+  constructor(
+    private inner: RetryStrategy,
+    private options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.isFailure = options.isFailure ?? isServerFailure;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  beforeAttempt(): void {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + this.cooldownMs - Date.now();
+      if (remaining > 0) {
+        throw new CircuitOpenError(`Circuit is open; requests resume in ${Math.ceil(remaining / 1000)}s`, remaining);
+      }
+      this.transition('half-open');
+    } else if (this.state === 'half-open' && this.trialInFlight) {
+      throw new CircuitOpenError('Circuit is half-open; waiting for the trial request to finish', 0);
+    }
+    this.trialInFlight = this.state === 'half-open';
+    this.inner.beforeAttempt?.();
+  }
+
+  onSuccess(): void {
+    this.trialInFlight = false;
+    this.recordSuccess();
+    this.inner.onSuccess?.();
+  }
+
+  onFailure(error: Error): void {
+    this.trialInFlight = false;
+    this.inner.onFailure?.(error);
+
+    // The token endpoint failing says nothing about the API, either way
+    if (error instanceof AuthenticationError) {
+      return;
+    }
+
+    // Client errors mean the server is answering
+    if (!this.isFailure(error)) {
+      this.recordSuccess();
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  onAbort(): void {
+    // An aborted trial proved nothing; the next request becomes the trial
+    this.trialInFlight = false;
+    this.inner.onAbort?.();
+  }
+
+  shouldRetry(attempt: number, error: Error, context?: RetryContext): boolean {
+    // Waiting to retry against an open circuit would only end in CircuitOpenError
+    return this.state !== 'open' && this.inner.shouldRetry(attempt, error, context);
+  }
+
+  getRetryDelay(attempt: number, context?: RetryContext): number {
+    return this.inner.getRetryDelay(attempt, context);
+  }
+
+  getMaxAttempts(): number {
+    return this.inner.getMaxAttempts();
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.options.onStateChange?.({ from, to, failures: this.failures });
+  }
+}
@@ -1,4 +1,5 @@
-import { DataTransformer } from '../contracts/index.js';
+import { DataTransformer, TransformContext } from '../contracts/index.js';
+import { findOperation, parseWithSchema } from '../validation/validate.js';
 
 /**
  * Date transformer that converts ISO strings to Date objects
@@ -8,7 +9,7 @@ export class DateTransformer implements DataTransformer {
   private readonly dateFields = ['createdAt', 'updatedAt', 'timestamp', 'date'];
 
   transform(obj: unknown): unknown {
-    if (obj === null || typeof obj !== 'object') return obj;
+    if (obj === null || typeof obj !== 'object' || obj instanceof Date) return obj;
     
     if (Array.isArray(obj)) {
       return obj.map(item => this.transform(item));
@@ -53,9 +54,27 @@ export class IdentityTransformer implements DataTransformer {
 export class CompositeTransformer implements DataTransformer {
   constructor(private transformers: DataTransformer[]) {}
 
-  transform(data: unknown): unknown {
+  transform(data: unknown, context?: TransformContext): unknown {
     return this.transformers.reduce((current, transformer) => {
-      return transformer.transform(current);
+      return transformer.transform(current, context);
     }, data);
   }
 }
+
+/**
+ * Checks response bodies against the OpenAPI schema of the endpoint they came
+ * from and throws a ValidationError listing each violation. Returns the data
+ * unchanged, so it must run before transformers that reshape it (e.g. dates).
+ * Responses of endpoints outside the spec pass through.
+ */
+export class ResponseValidationTransformer implements DataTransformer {
+  transform(data: unknown, context?: TransformContext): unknown {
+    if (!context) return data;
+
+    const schema = findOperation(context.method, context.path)?.response;
+    if (schema) {
+      parseWithSchema(schema, data, `Response for ${context.method} ${context.path.split('?')[0]}`);
+    }
+    return data;
+  }
+}
@@ -1,5 +1,6 @@
 import { HttpClient, HttpRequestOptions, HttpResponse, HttpMethod } from '../contracts/index.js';
-import { NetworkError } from '../errors.js';
+import { AbortedError, NetworkError, TimeoutError } from '../errors.js';
+import { throwIfAborted } from './Abort.js';
 
 /**
  * Concrete HTTP client implementation using fetch API
@@ -8,12 +9,19 @@ import { NetworkError } from '../errors.js';
 export class FetchHttpClient implements HttpClient {
   async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
     const { url, method, headers = {}, body, timeout = 5000, signal } = options;
+    throwIfAborted(signal);
 
+    // One signal for fetch that fires on the caller's abort or the timeout,
+    // whichever comes first; timedOut tells them apart afterwards
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    // Use provided signal or create new one
-    const requestSignal = signal || controller.signal;
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const requestSignal = controller.signal;
 
     try {
       const response = await fetch(url, {
@@ -27,8 +35,7 @@ export class FetchHttpClient implements HttpClient {
         signal: requestSignal,
       });
 
-      clearTimeout(timeoutId);
-
+      // The timeout and the caller's abort keep applying while the body downloads
       let data: T;
       const contentType = response.headers.get('content-type');
       
@@ -52,11 +59,20 @@ export class FetchHttpClient implements HttpClient {
         headers: responseHeaders,
       };
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NetworkError('Network connection failed. Please check your internet connection.');
+      if (signal?.aborted) {
+        throw new AbortedError(undefined, signal.reason);
+      }
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeout}ms`, timeout);
+      }
+      // fetch rejects with a TypeError for every network-level failure; the wording varies by runtime
+      if (error instanceof TypeError) {
+        throw new NetworkError('Network connection failed. Please check your internet connection.', error);
       }
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 }
@@ -0,0 +1,146 @@
+import {
+  CacheEntry,
+  CacheStore,
+  HttpHandler,
+  HttpMiddleware,
+  HttpRequestOptions,
+  HttpResponse
+} from '../contracts/index.js';
+import { APIError } from '../errors.js';
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+/**
+ * Unbounded in-memory store; entries live as long as the client
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  get(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * In-memory store that evicts the least recently used entry beyond maxEntries
+ */
+export class LRUCacheStore implements CacheStore {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 100) {
+    if (maxEntries < 1) {
+      throw new Error('LRUCacheStore needs room for at least one entry');
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Revalidates GET responses with If-None-Match / If-Modified-Since and answers
+ * a 304 with the stored body, so unchanged resources are not downloaded again.
+ * Responses are stored before transformation, under their full URL and the
+ * request's headers, which hold the credentials, so callers authenticated
+ * differently never see each other's responses.
+ */
+export class CachingMiddleware implements HttpMiddleware {
+  constructor(private store: CacheStore = new MemoryCacheStore()) {}
+
+  async handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>> {
+    const mode = options.cache ?? 'default';
+    if (options.method !== 'GET' || mode === 'no-store') {
+      return next(options);
+    }
+
+    const key = this.keyFor(options);
+    const cached = mode === 'reload' ? undefined : await this.store.get(key);
+    const headers = { ...options.headers };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    let response = await next({ ...options, headers });
+
+    if (response.status === 304 && cached) {
+      return {
+        // Callers get their own copy, so changing it can't corrupt the store
+        data: structuredClone(cached.data),
+        status: 200,
+        statusText: 'OK',
+        headers: { ...cached.headers, ...response.headers }
+      };
+    }
+
+    // With nothing stored there is no body for a 304 to stand for, e.g. when a cache
+    // further down revalidated on its own; ask once more for the full response
+    if (response.status === 304) {
+      response = await next(options);
+      if (response.status === 304) {
+        throw new APIError('Server answered an unconditional request with 304 Not Modified', 304, response.statusText);
+      }
+    }
+
+    if (response.status === 200) {
+      const etag = headerValue(response.headers, 'etag');
+      const lastModified = headerValue(response.headers, 'last-modified');
+      if (etag || lastModified) {
+        await this.store.set(key, { data: response.data, headers: response.headers, etag, lastModified });
+      }
+    }
+
+    return response;
+  }
+
+  // Requests without headers, i.e. without credentials, are keyed by URL alone
+  private keyFor({ url, headers = {} }: HttpRequestOptions): string {
+    const entries = Object.entries(headers)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => a!.localeCompare(b!));
+    return entries.length > 0 ? `${url} ${JSON.stringify(entries)}` : url;
+  }
+}
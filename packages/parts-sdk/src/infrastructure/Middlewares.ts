@@ -0,0 +1,126 @@
+import { HttpClient, HttpHandler, HttpMiddleware, HttpRequestOptions, HttpResponse } from '../contracts/index.js';
+import { abortable } from './Abort.js';
+
+/**
+ * HTTP client that passes each request through an ordered middleware chain
+ * before handing it to the wrapped client. The first middleware is outermost.
+ */
+export class MiddlewareHttpClient implements HttpClient {
+  constructor(
+    private httpClient: HttpClient,
+    private middlewares: HttpMiddleware[]
+  ) {}
+
+  request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
+    return this.dispatch(0, options) as Promise<HttpResponse<T>>;
+  }
+
+  private dispatch(index: number, options: HttpRequestOptions): Promise<HttpResponse<unknown>> {
+    const middleware = this.middlewares[index];
+    if (!middleware) {
+      return this.httpClient.request(options);
+    }
+    const next: HttpHandler = nextOptions => this.dispatch(index + 1, nextOptions);
+    return middleware.handle(options, next);
+  }
+}
+
+/**
+ * Adds a correlation ID header to requests that don't already carry one
+ */
+export class RequestIdMiddleware implements HttpMiddleware {
+  constructor(
+    private headerName: string = 'X-Request-ID',
+    private generateId: () => string = () => crypto.randomUUID()
+  ) {}
+
+  handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>> {
+    const headers = options.headers ?? {};
+    if (headers[this.headerName]) {
+      return next(options);
+    }
+    return next({ ...options, headers: { ...headers, [this.headerName]: this.generateId() } });
+  }
+}
+
+export interface RequestLogger {
+  info(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Logs each request and its outcome
+ */
+export class LoggingMiddleware implements HttpMiddleware {
+  constructor(private logger: RequestLogger = console) {}
+
+  async handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>> {
+    this.logger.info(`--> ${options.method} ${options.url}`);
+    try {
+      const response = await next(options);
+      this.logger.info(`<-- ${response.status} ${options.method} ${options.url}`);
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`<-- failed ${options.method} ${options.url}: ${message}`);
+      throw error;
+    }
+  }
+}
+
+export interface RequestTiming {
+  method: string;
+  url: string;
+  // Absent when the request failed without a response
+  status?: number;
+  durationMs: number;
+}
+
+/**
+ * Reports how long each request took, whether it succeeded or not
+ */
+export class TimingMiddleware implements HttpMiddleware {
+  constructor(private onTiming: (timing: RequestTiming) => void) {}
+
+  async handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>> {
+    const startedAt = performance.now();
+    let status: number | undefined;
+    try {
+      const response = await next(options);
+      status = response.status;
+      return response;
+    } finally {
+      this.onTiming({
+        method: options.method,
+        url: options.url,
+        status,
+        durationMs: performance.now() - startedAt,
+      });
+    }
+  }
+}
+
+/**
+ * Shares one in-flight GET between callers asking for the same URL with the same
+ * headers. Each caller can still abort its own wait; the shared request runs on
+ * until its timeout, as other callers may need it.
+ */
+export class DeduplicatingMiddleware implements HttpMiddleware {
+  private inFlight = new Map<string, Promise<HttpResponse<unknown>>>();
+
+  handle(options: HttpRequestOptions, next: HttpHandler): Promise<HttpResponse<unknown>> {
+    if (options.method !== 'GET') {
+      return next(options);
+    }
+
+    const key = JSON.stringify([options.url, options.headers ?? {}, options.cache ?? 'default']);
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      shared = next({ ...options, signal: undefined });
+      this.inFlight.set(key, shared);
+      const forget = () => this.inFlight.delete(key);
+      shared.then(forget, forget);
+    }
+    return abortable(shared, options.signal);
+  }
+}
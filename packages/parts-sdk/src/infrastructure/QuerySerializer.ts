@@ -0,0 +1,41 @@
+import { PartSortOption, SearchPartsDTO } from '../contracts/index.js';
+
+/**
+ * Formats sort options as the `sort` query parameter, e.g. `price:desc,name:asc`
+ */
+export function formatSortParam(sort: PartSortOption[]): string {
+  return sort.map(({ field, direction = 'asc' }) => `${field}:${direction}`).join(',');
+}
+
+/**
+ * Serializes search criteria into a query string, skipping empty values
+ */
+export function toSearchQueryString(dto: SearchPartsDTO): string {
+  const queryParams = new URLSearchParams();
+
+  Object.entries(dto).forEach(([key, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    if (key === 'sort') {
+      const sort = value as PartSortOption[];
+      if (sort.length > 0) {
+        queryParams.append(key, formatSortParam(sort));
+      }
+      return;
+    }
+
+    queryParams.append(key, String(value));
+  });
+
+  return queryParams.toString();
+}
+
+export function toSuggestQueryString(query: string, limit?: number): string {
+  const queryParams = new URLSearchParams({ query });
+  if (limit !== undefined) {
+    queryParams.append('limit', String(limit));
+  }
+  return queryParams.toString();
+}
@@ -1,5 +1,83 @@
-import { RetryStrategy } from '../contracts/index.js';
-import { APIError } from '../errors.js';
+import { RetryContext, RetryStrategy } from '../contracts/index.js';
+import { AbortedError, APIError, ValidationError } from '../errors.js';
+
+export type JitterMode = 'none' | 'full' | 'decorrelated';
+
+export interface RetryOptions {
+  // Wait as long as the Retry-After header of a 429 or 503 asks (default true)
+  respectRetryAfter?: boolean;
+  // Give up once this much time has passed since the first attempt; waits are shortened to fit
+  budgetMs?: number;
+}
+
+export interface BackoffRetryOptions extends RetryOptions {
+  jitter?: JitterMode;
+  // Source of randomness for jitter, returning values in [0, 1)
+  random?: () => number;
+}
+
+// Statuses whose Retry-After header says when to come back
+const RETRY_AFTER_STATUSES = [429, 503];
+
+function isRetryable(error: Error): boolean {
+  // A response that breaks the schema will break it again; an abort was meant
+  if (error instanceof ValidationError || error instanceof AbortedError) {
+    return false;
+  }
+
+  // Don't retry client errors (4xx) other than rate limiting
+  if (error instanceof APIError && error.status) {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  return true;
+}
+
+/**
+ * Milliseconds to wait for a Retry-After value, which is either delay-seconds
+ * or an HTTP date
+ */
+export function parseRetryAfter(value: string, now: number = Date.now()): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function retryAfterDelay(context: RetryContext | undefined, options: RetryOptions): number | undefined {
+  const response = context?.response;
+  if (options.respectRetryAfter === false || !response || !RETRY_AFTER_STATUSES.includes(response.status)) {
+    return undefined;
+  }
+  // Custom HTTP clients may not lowercase header names
+  const header = Object.entries(response.headers).find(([name]) => name.toLowerCase() === 'retry-after');
+  return header ? parseRetryAfter(header[1]) : undefined;
+}
+
+function remainingBudget(context: RetryContext | undefined, options: RetryOptions): number {
+  return options.budgetMs === undefined ? Infinity : options.budgetMs - (context?.elapsedMs ?? 0);
+}
+
+function canRetry(
+  attempt: number,
+  maxAttempts: number,
+  error: Error,
+  context: RetryContext | undefined,
+  options: RetryOptions
+): boolean {
+  if (attempt >= maxAttempts || !isRetryable(error)) {
+    return false;
+  }
+  // Retrying before the server's Retry-After would just be refused again
+  const remaining = remainingBudget(context, options);
+  return remaining > 0 && (retryAfterDelay(context, options) ?? 0) <= remaining;
+}
+
+function fitBudget(delay: number, context: RetryContext | undefined, options: RetryOptions): number {
+  return Math.max(0, Math.min(delay, remainingBudget(context, options)));
+}
 
 /**
  * Exponential backoff retry strategy
@@ -9,30 +87,41 @@ export class ExponentialBackoffRetryStrategy implements RetryStrategy {
   constructor(
     private maxAttempts: number = 3,
     private baseDelay: number = 1000,
-    private maxDelay: number = 10000
+    private maxDelay: number = 10000,
+    private options: BackoffRetryOptions = {}
   ) {}
 
-  shouldRetry(attempt: number, error: Error): boolean {
-    if (attempt >= this.maxAttempts) {
-      return false;
-    }
-
-    // Don't retry client errors (4xx)
-    if (error instanceof APIError && error.status) {
-      return error.status >= 500; // Only retry server errors
-    }
-
-    return true;
+  shouldRetry(attempt: number, error: Error, context?: RetryContext): boolean {
+    return canRetry(attempt, this.maxAttempts, error, context, this.options);
   }
 
-  getRetryDelay(attempt: number): number {
-    const delay = this.baseDelay * Math.pow(2, attempt - 1);
-    return Math.min(delay, this.maxDelay);
+  getRetryDelay(attempt: number, context?: RetryContext): number {
+    const delay = retryAfterDelay(context, this.options) ?? this.backoffDelay(attempt, context);
+    return fitBudget(delay, context, this.options);
   }
 
   getMaxAttempts(): number {
     return this.maxAttempts;
   }
+
+  private backoffDelay(attempt: number, context?: RetryContext): number {
+    const random = this.options.random ?? Math.random;
+    const ceiling = Math.min(this.baseDelay * Math.pow(2, attempt - 1), this.maxDelay);
+
+    switch (this.options.jitter ?? 'none') {
+      case 'full':
+        // Anywhere between zero and the exponential ceiling
+        return random() * ceiling;
+      case 'decorrelated': {
+        // Between the base delay and three times the previous wait
+        const previous = context?.previousDelayMs ?? this.baseDelay;
+        const upper = Math.max(this.baseDelay, previous * 3);
+        return Math.min(this.maxDelay, this.baseDelay + random() * (upper - this.baseDelay));
+      }
+      default:
+        return ceiling;
+    }
+  }
 }
 
 /**
@@ -58,24 +147,16 @@ export class NoRetryStrategy implements RetryStrategy {
 export class FixedDelayRetryStrategy implements RetryStrategy {
   constructor(
     private maxAttempts: number = 3,
-    private delay: number = 1000
+    private delay: number = 1000,
+    private options: RetryOptions = {}
   ) {}
 
-  shouldRetry(attempt: number, error: Error): boolean {
-    if (attempt >= this.maxAttempts) {
-      return false;
-    }
-
-    // Don't retry client errors (4xx)
-    if (error instanceof APIError && error.status) {
-      return error.status >= 500;
-    }
-
-    return true;
+  shouldRetry(attempt: number, error: Error, context?: RetryContext): boolean {
+    return canRetry(attempt, this.maxAttempts, error, context, this.options);
   }
 
-  getRetryDelay(): number {
-    return this.delay;
+  getRetryDelay(_attempt: number, context?: RetryContext): number {
+    return fitBudget(retryAfterDelay(context, this.options) ?? this.delay, context, this.options);
   }
 
   getMaxAttempts(): number {
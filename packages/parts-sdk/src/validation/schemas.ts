@@ -0,0 +1,149 @@
+// Generated from docs/api-specification.yaml by scripts/generate-schemas.mjs. Do not edit;
+// run `pnpm --filter @partsy/sdk generate:schemas` after changing the spec.
+import { z } from 'zod';
+
+// Query strings carry booleans as "true" / "false"
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export const PartSchema = z.object({
+  id: z.string(),
+  partNumber: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  price: z.number().min(0),
+  quantity: z.number().int().min(0),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'DISCONTINUED']),
+  category: z.string(),
+  createdAt: z.string().datetime({ offset: true }),
+  updatedAt: z.string().datetime({ offset: true }),
+  score: z.number().optional(),
+});
+
+export const BatchGetPartsRequestSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+});
+
+export const BatchGetPartsResponseSchema = z.object({
+  parts: z.array(PartSchema),
+  notFound: z.array(z.string()),
+});
+
+export const CreatePartRequestSchema = z.object({
+  partNumber: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  price: z.number().min(0),
+  quantity: z.number().int().min(0),
+  category: z.string(),
+});
+
+export const UpdatePartRequestSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  price: z.number().min(0).optional(),
+  quantity: z.number().int().min(0).optional(),
+  category: z.string().optional(),
+});
+
+export const FacetCountSchema = z.object({
+  value: z.string(),
+  count: z.number().int().min(0),
+});
+
+export const PriceBucketSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  count: z.number().int().min(0),
+});
+
+export const SearchFacetsSchema = z.object({
+  categories: z.array(FacetCountSchema),
+  statuses: z.array(FacetCountSchema),
+  priceBuckets: z.array(PriceBucketSchema),
+});
+
+export const SearchPartsResponseSchema = z.object({
+  parts: z.array(PartSchema),
+  total: z.number().int().min(0),
+  page: z.number().int().min(1),
+  limit: z.number().int().min(1),
+  totalPages: z.number().int().min(0),
+  nextCursor: z.string().optional(),
+  prevCursor: z.string().optional(),
+  facets: SearchFacetsSchema.optional(),
+});
+
+export const SuggestionSchema = z.object({
+  text: z.string(),
+  field: z.enum(['name', 'partNumber', 'category']),
+  partId: z.string().optional(),
+  highlights: z.array(z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+  })),
+});
+
+export const SuggestPartsResponseSchema = z.object({
+  suggestions: z.array(SuggestionSchema),
+});
+
+export const ErrorSchema = z.object({
+  message: z.string(),
+  code: z.string(),
+  requestId: z.string().optional(),
+  timestamp: z.string().datetime({ offset: true }),
+});
+
+export const ValidationErrorSchema = z.object({
+  message: z.string(),
+  code: z.string(),
+  errors: z.array(z.object({
+    field: z.string().optional(),
+    message: z.string().optional(),
+    code: z.string().optional(),
+  })),
+  requestId: z.string().optional(),
+  timestamp: z.string().datetime({ offset: true }),
+});
+
+export const SearchPartsQuerySchema = z.object({
+  query: z.string().optional(),
+  name: z.string().optional(),
+  partNumber: z.string().optional(),
+  category: z.string().optional(),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'DISCONTINUED']).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: queryBoolean.optional(),
+  fuzzy: queryBoolean.default('false'),
+  sort: z.string().regex(new RegExp('^(name|partNumber|price|quantity|createdAt|updatedAt)(:(asc|desc))?(,(name|partNumber|price|quantity|createdAt|updatedAt)(:(asc|desc))?)*$')).optional(),
+  includeFacets: queryBoolean.default('false'),
+  priceBuckets: z.string().regex(new RegExp('^\\d+(\\.\\d+)?(,\\d+(\\.\\d+)?)*$')).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  cursor: z.string().regex(new RegExp('^[A-Za-z0-9_-]+$')).optional(),
+});
+
+export const SuggestPartsQuerySchema = z.object({
+  query: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(25).default(8),
+});
+
+export interface OperationSchemas {
+  method: string;
+  // OpenAPI path template, e.g. /parts/{id}
+  path: string;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response?: z.ZodTypeAny;
+}
+
+export const apiOperations: OperationSchemas[] = [
+  { method: 'GET', path: '/parts/search', query: SearchPartsQuerySchema, response: SearchPartsResponseSchema },
+  { method: 'GET', path: '/parts/suggest', query: SuggestPartsQuerySchema, response: SuggestPartsResponseSchema },
+  { method: 'POST', path: '/parts', body: CreatePartRequestSchema, response: PartSchema },
+  { method: 'POST', path: '/parts/batch', body: BatchGetPartsRequestSchema, response: BatchGetPartsResponseSchema },
+  { method: 'GET', path: '/parts/{id}', response: PartSchema },
+  { method: 'PUT', path: '/parts/{id}', body: UpdatePartRequestSchema, response: PartSchema },
+  { method: 'DELETE', path: '/parts/{id}' },
+];
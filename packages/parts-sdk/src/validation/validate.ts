@@ -0,0 +1,69 @@
+import type { z } from 'zod';
+import { ValidationError, type FieldViolation } from '../errors.js';
+import { apiOperations, type OperationSchemas } from './schemas.js';
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment,
+  '');
+}
+
+function violationCode(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined' ? 'REQUIRED' : 'INVALID_TYPE';
+    case 'too_small':
+      return issue.type === 'string' || issue.type === 'array' ? 'MIN_LENGTH' : 'MIN_VALUE';
+    case 'too_big':
+      return issue.type === 'string' || issue.type === 'array' ? 'MAX_LENGTH' : 'MAX_VALUE';
+    case 'invalid_enum_value':
+      return 'INVALID_ENUM';
+    case 'invalid_string':
+      return issue.validation === 'regex' ? 'PATTERN' : 'INVALID_FORMAT';
+    default:
+      return issue.code.toUpperCase();
+  }
+}
+
+export function toFieldViolations(error: z.ZodError): FieldViolation[] {
+  return error.issues.map(issue => ({
+    field: formatPath(issue.path),
+    message: issue.message,
+    code: violationCode(issue)
+  }));
+}
+
+/**
+ * Parses `data` with `schema`, throwing a `ValidationError` that lists every
+ * violation. `subject` names the value in the message, e.g. "Response for GET /parts/search".
+ */
+export function parseWithSchema<S extends z.ZodTypeAny>(schema: S, data: unknown, subject: string): z.output<S> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const violations = toFieldViolations(result.error);
+  const summary = violations
+    .map(violation => violation.field ? `${violation.field}: ${violation.message}` : violation.message)
+    .join('; ');
+  const first = violations[0];
+  throw new ValidationError(`${subject} is invalid: ${summary}`, first?.field, first?.code, violations);
+}
+
+const TEMPLATE_PARAMETER = /\{[^}]+\}/g;
+
+const operationMatchers = apiOperations.map(operation => ({
+  operation,
+  pattern: new RegExp(`^${operation.path.replace(TEMPLATE_PARAMETER, '[^/]+')}$`)
+}));
+
+/**
+ * Finds the spec operation for a request path such as `/parts/abc?x=1`
+ */
+export function findOperation(method: string, path: string): OperationSchemas | undefined {
+  const pathname = path.split('?')[0] ?? path;
+  return operationMatchers.find(({ operation, pattern }) =>
+    operation.method === method.toUpperCase() && pattern.test(pathname)
+  )?.operation;
+}
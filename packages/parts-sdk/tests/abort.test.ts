@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { FetchHttpClient } from '../src/infrastructure/FetchHttpClient.js';
+import { AbortedError, TimeoutError } from '../src/errors.js';
+import type { HttpClient, HttpRequestOptions } from '../src/contracts/index.js';
+
+// fetch stub that never answers and rejects like fetch does once its signal fires
+function hangingFetch() {
+  return vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  }));
+}
+
+describe('request cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should tell a caller abort apart from a timeout', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const httpClient = new FetchHttpClient();
+    const controller = new AbortController();
+    const reason = new Error('navigated away');
+
+    const aborted = httpClient.request({ url: 'https://api.example.com/parts', method: 'GET', timeout: 1000, signal: controller.signal });
+    controller.abort(reason);
+    const timedOut = httpClient.request({ url: 'https://api.example.com/parts', method: 'GET', timeout: 10, signal: new AbortController().signal });
+
+    const abortError = await aborted.catch(e => e);
+    expect(abortError).toBeInstanceOf(AbortedError);
+    expect(abortError.reason).toBe(reason);
+    await expect(timedOut).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should stop retrying when the caller aborts during backoff', async () => {
+    const request = vi.fn(async (_options: HttpRequestOptions) => ({ data: {}, status: 503, statusText: 'Service Unavailable', headers: {} }));
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .withFixedDelayRetry(3, 10000)
+      .build();
+    const controller = new AbortController();
+
+    const result = client.searchParts({}, { signal: controller.signal });
+    await vi.waitFor(() => expect(request).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the caller signal through to the HTTP client', async () => {
+    const request = vi.fn(async (options: HttpRequestOptions) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      options.signal?.throwIfAborted();
+      return { data: {}, status: 204, statusText: 'No Content', headers: {} };
+    });
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .build();
+    const controller = new AbortController();
+
+    const result = client.deletePart('p1', { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    expect(request.mock.calls[0]![0].signal).toBe(controller.signal);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start a request for an already aborted signal', async () => {
+    const request = vi.fn();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .build();
+
+    await expect(client.getPartById('p1', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortedError);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { BatchLoader } from '../src/client/BatchLoader.js';
+import { AbortedError, APIError } from '../src/errors.js';
+import type { HttpClient, HttpRequestOptions } from '../src/contracts/index.js';
+
+function part(id: string) {
+  return {
+    id,
+    partNumber: `P-${id}`,
+    name: 'Part',
+    price: 1,
+    quantity: 1,
+    status: 'ACTIVE',
+    category: 'Engine',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z'
+  };
+}
+
+// Server stub for /parts/batch and /parts/{id} that knows parts p1 to p9
+function createHttpClient() {
+  const request = vi.fn(async (options: HttpRequestOptions) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    if (options.method === 'POST') {
+      const { ids } = options.body as { ids: string[] };
+      const known = ids.filter(id => /^p\d$/.test(id));
+      return {
+        data: { parts: known.map(part), notFound: ids.filter(id => !known.includes(id)) },
+        status: 200,
+        statusText: 'OK',
+        headers: {}
+      };
+    }
+    return { data: part(options.url.split('/').pop()!), status: 200, statusText: 'OK', headers: {} };
+  });
+  return { httpClient: { request } as HttpClient, request };
+}
+
+describe('request batching and deduplication', () => {
+  it('should batch getPartById calls made in the same tick into one request', async () => {
+    const { httpClient, request } = createHttpClient();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withBatching()
+      .build();
+
+    const parts = await Promise.all([client.getPartById('p2'), client.getPartById('p1'), client.getPartById('p2')]);
+
+    expect(parts.map(p => p.id)).toEqual(['p2', 'p1', 'p2']);
+    expect(parts[0]!.updatedAt).toBeInstanceOf(Date);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'POST',
+      url: 'https://api.example.com/parts/batch',
+      body: { ids: ['p2', 'p1'] }
+    }));
+  });
+
+  it('should reject only the loads of parts that were not found', async () => {
+    const { httpClient } = createHttpClient();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withBatching()
+      .build();
+
+    const [found, missing] = await Promise.allSettled([client.getPartById('p1'), client.getPartById('gone')]);
+
+    expect(found).toMatchObject({ status: 'fulfilled', value: { id: 'p1' } });
+    expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(APIError) });
+    expect((missing as PromiseRejectedResult).reason.status).toBe(404);
+  });
+
+  it('should split batches beyond maxBatchSize and share failures within a batch', async () => {
+    const batchFn = vi.fn(async (keys: number[]) => {
+      if (keys.includes(3)) {
+        throw new Error('batch failed');
+      }
+      return keys.map(key => key * 10);
+    });
+    const loader = new BatchLoader(batchFn, { maxBatchSize: 2 });
+
+    const results = await Promise.allSettled([1, 2, 3, 4].map(key => loader.load(key)));
+
+    expect(batchFn.mock.calls.map(([keys]) => keys)).toEqual([[1, 2], [3, 4]]);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'rejected']);
+  });
+
+  it('should drop aborted loads from the batch and cancel a batch nobody waits for', async () => {
+    const batchFn = vi.fn((keys: number[], signal: AbortSignal) => new Promise<number[]>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(keys.map(key => key * 10)), 20);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    }));
+    const loader = new BatchLoader(batchFn);
+    const queued = new AbortController();
+    const inFlight = new AbortController();
+
+    const dropped = loader.load(1, queued.signal);
+    const kept = loader.load(2);
+    queued.abort();
+
+    await expect(dropped).rejects.toBeInstanceOf(AbortedError);
+    await expect(kept).resolves.toBe(20);
+    expect(batchFn.mock.calls[0]![0]).toEqual([2]);
+
+    const cancelled = loader.load(3, inFlight.signal);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(AbortedError);
+    expect(batchFn.mock.calls[1]![1].aborted).toBe(true);
+    // A new load of the key doesn't join the cancelled call
+    await expect(loader.load(3)).resolves.toBe(30);
+  });
+
+  it('should coalesce identical in-flight GETs', async () => {
+    const { httpClient, request } = createHttpClient();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withRequestDeduplication()
+      .build();
+
+    const [a, b, c] = await Promise.all([client.getPartById('p1'), client.getPartById('p1'), client.getPartById('p2')]);
+    await client.getPartById('p1');
+
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b);
+    expect(c.id).toBe('p2');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should let one caller stop waiting without cancelling the shared request', async () => {
+    const { httpClient, request } = createHttpClient();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withNoRetry()
+      .withRequestDeduplication()
+      .build();
+    const controller = new AbortController();
+
+    const aborted = client.suggestParts('brake', { signal: controller.signal });
+    const kept = client.suggestParts('brake');
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow();
+    await expect(kept).resolves.toBeDefined();
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0]![0].signal).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { CachingMiddleware, LRUCacheStore, MemoryCacheStore } from '../src/infrastructure/HttpCache.js';
+import type { HttpClient, HttpRequestOptions } from '../src/contracts/index.js';
+
+const part = {
+  id: 'p1',
+  partNumber: 'BRK-002',
+  name: 'Brake Pad',
+  price: 89.99,
+  quantity: 8,
+  status: 'ACTIVE',
+  category: 'Brakes',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-02T00:00:00Z'
+};
+
+// Server stub that answers If-None-Match like the reference server
+function createHttpClient(etag = '"p1-v1"') {
+  const request = vi.fn(async (options: HttpRequestOptions) => {
+    if (options.headers?.['If-None-Match'] === etag) {
+      return { data: {}, status: 304, statusText: 'Not Modified', headers: { etag } };
+    }
+    return { data: part, status: 200, statusText: 'OK', headers: { 'content-type': 'application/json', etag } };
+  });
+  return { httpClient: { request } as HttpClient, request };
+}
+
+describe('HTTP caching', () => {
+  it('should revalidate with If-None-Match and serve 304s from the store', async () => {
+    const { httpClient, request } = createHttpClient();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withCache()
+      .build();
+
+    const first = await client.getPartById('p1');
+    const second = await client.getPartById('p1');
+
+    expect(second).toEqual(first);
+    expect(second.updatedAt).toBeInstanceOf(Date);
+    expect(request.mock.calls.map(([options]) => options.headers?.['If-None-Match'])).toEqual([undefined, '"p1-v1"']);
+  });
+
+  it('should let middlewares see the 304 itself', async () => {
+    const { httpClient } = createHttpClient();
+    const statuses: number[] = [];
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .use({
+        async handle(options, next) {
+          const response = await next(options);
+          statuses.push(response.status);
+          return response;
+        }
+      })
+      .withCache()
+      .build();
+
+    await client.getPartById('p1');
+    await client.getPartById('p1');
+
+    expect(statuses).toEqual([200, 304]);
+  });
+
+  it('should bypass the store per call', async () => {
+    const { httpClient, request } = createHttpClient();
+    const store = new MemoryCacheStore();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withCache(store)
+      .build();
+
+    await client.searchParts({ name: 'brake' }, { cache: 'no-store' });
+    expect(store.get('https://api.example.com/parts/search?name=brake')).toBeUndefined();
+
+    await client.getPartById('p1');
+    await client.getPartById('p1', { cache: 'reload' });
+
+    expect(request.mock.calls[2]![0].headers?.['If-None-Match']).toBeUndefined();
+    expect(store.get('https://api.example.com/parts/p1')).toMatchObject({ etag: '"p1-v1"' });
+  });
+
+  it('should only cache GET responses that carry validators', async () => {
+    const request = vi.fn(async (_options: HttpRequestOptions) => ({ data: part, status: 200, statusText: 'OK', headers: {} }));
+    const store = new MemoryCacheStore();
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .withCache(store)
+      .build();
+
+    await client.getPartById('p1');
+    await client.updatePart('p1', { price: 1 });
+
+    expect(store.get('https://api.example.com/parts/p1')).toBeUndefined();
+    expect(request.mock.calls.every(([options]) => options.headers?.['If-None-Match'] === undefined)).toBe(true);
+  });
+
+  it('should keep responses for different credentials apart', async () => {
+    const { httpClient, request } = createHttpClient();
+    const store = new MemoryCacheStore();
+    const clientFor = (token: string) => new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient(httpClient)
+      .withBearerToken(token)
+      .withCache(store)
+      .build();
+
+    await clientFor('alice').getPartById('p1');
+    await clientFor('bob').getPartById('p1');
+    await clientFor('alice').getPartById('p1');
+
+    expect(request.mock.calls.map(([options]) => options.headers?.['If-None-Match'])).toEqual([undefined, undefined, '"p1-v1"']);
+  });
+
+  it('should ask again for the full response when a 304 has no stored entry behind it', async () => {
+    const next = vi.fn()
+      .mockResolvedValueOnce({ data: {}, status: 304, statusText: 'Not Modified', headers: {} })
+      .mockResolvedValueOnce({ data: part, status: 200, statusText: 'OK', headers: { etag: '"p1-v1"' } });
+    const options: HttpRequestOptions = { url: 'https://api.example.com/parts/p1', method: 'GET' };
+
+    const response = await new CachingMiddleware().handle(options, next);
+
+    expect(response).toMatchObject({ status: 200, data: part });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry from an LRU store', () => {
+    const store = new LRUCacheStore(2);
+    const entry = (data: string) => ({ data, headers: {}, etag: `"${data}"` });
+
+    store.set('a', entry('a'));
+    store.set('b', entry('b'));
+    store.get('a');
+    store.set('c', entry('c'));
+
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')).toBeDefined();
+    expect(store.get('c')).toBeDefined();
+    expect(store.size).toBe(2);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { CircuitBreakerRetryStrategy, type CircuitStateChange } from '../src/infrastructure/CircuitBreaker.js';
+import { NoRetryStrategy } from '../src/infrastructure/RetryStrategies.js';
+import { APIError, AuthenticationError, CircuitOpenError, NetworkError } from '../src/errors.js';
+import type { HttpClient } from '../src/contracts/index.js';
+
+const emptyResults = { parts: [], total: 0, page: 1, limit: 10, totalPages: 0 };
+
+function createClient(statuses: number[], onStateChange?: (change: CircuitStateChange) => void) {
+  const request = vi.fn(async () => {
+    const status = statuses.shift() ?? 200;
+    return { data: status === 200 ? emptyResults : {}, status, statusText: String(status), headers: {} };
+  });
+  const client = new PartsAPIClientBuilder()
+    .setBaseUrl('https://api.example.com')
+    .setHttpClient({ request } as HttpClient)
+    .withCircuitBreaker({ failureThreshold: 2, cooldownMs: 10000, onStateChange })
+    .withNoRetry()
+    .build();
+  return { client, request };
+}
+
+describe('CircuitBreakerRetryStrategy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures and then fail fast', async () => {
+    const changes: CircuitStateChange[] = [];
+    const { client, request } = createClient([503, 503], change => changes.push(change));
+
+    await expect(client.searchParts({})).rejects.toBeInstanceOf(APIError);
+    await expect(client.searchParts({})).rejects.toBeInstanceOf(APIError);
+    const error = await client.searchParts({}).catch(e => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBeGreaterThan(9000);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual([{ from: 'closed', to: 'open', failures: 2 }]);
+  });
+
+  it('should not count client errors against the server', async () => {
+    const { client, request } = createClient([503, 404, 503]);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.getPartById('p1')).rejects.toBeInstanceOf(APIError);
+    }
+    await client.searchParts({});
+
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('should half-open after the cool-down and close on a successful trial', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const changes: CircuitStateChange[] = [];
+    const { client } = createClient([503, 503], change => changes.push(change));
+
+    await client.searchParts({}).catch(() => undefined);
+    await client.searchParts({}).catch(() => undefined);
+    vi.advanceTimersByTime(10000);
+
+    await expect(client.searchParts({})).resolves.toEqual(emptyResults);
+    expect(changes.map(({ to }) => to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the half-open trial fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { client, request } = createClient([503, 503, 503]);
+
+    await client.searchParts({}).catch(() => undefined);
+    await client.searchParts({}).catch(() => undefined);
+    vi.advanceTimersByTime(10000);
+
+    await expect(client.searchParts({})).rejects.toBeInstanceOf(APIError);
+    await expect(client.searchParts({})).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should let a single trial through while half-open', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const breaker = new CircuitBreakerRetryStrategy(new NoRetryStrategy(), { failureThreshold: 1, cooldownMs: 10000 });
+    breaker.onFailure(new NetworkError('Network connection failed'));
+    vi.advanceTimersByTime(10000);
+
+    breaker.beforeAttempt();
+    expect(breaker.getState()).toBe('half-open');
+    expect(() => breaker.beforeAttempt()).toThrow(CircuitOpenError);
+
+    // An aborted trial settles nothing, so the next request takes its place
+    breaker.onAbort();
+    breaker.beforeAttempt();
+    breaker.onSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+  });
+
+  it('should only count network errors, timeouts and 5xx responses from the API', () => {
+    const breaker = new CircuitBreakerRetryStrategy(new NoRetryStrategy(), { failureThreshold: 2 });
+
+    breaker.onFailure(new APIError('Service Unavailable', 503));
+    breaker.onFailure(new TypeError('Cannot read properties of undefined'));
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.onFailure(new APIError('Service Unavailable', 503));
+    // A failing token endpoint neither opens the circuit nor resets its count
+    breaker.onFailure(new AuthenticationError('Token request failed: 503 Service Unavailable', 503));
+    expect(breaker.getState()).toBe('closed');
+    breaker.onFailure(new APIError('Service Unavailable', 503));
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should not open when the token endpoint is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }));
+    try {
+      const request = vi.fn();
+      const client = new PartsAPIClientBuilder()
+        .setBaseUrl('https://api.example.com')
+        .setHttpClient({ request } as HttpClient)
+        .withCircuitBreaker({ failureThreshold: 2 })
+        .withNoRetry()
+        .withOAuth2ClientCredentials({ tokenUrl: 'https://auth.example.com/oauth/token', clientId: 'parts-sync', clientSecret: 's3cret' })
+        .build();
+
+      for (let i = 0; i < 3; i++) {
+        const error = await client.searchParts({}).catch(e => e);
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error.cause).toBeInstanceOf(NetworkError);
+      }
+      expect(request).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should stop retrying once the circuit opens mid-request', () => {
+    const inner = new NoRetryStrategy();
+    vi.spyOn(inner, 'shouldRetry').mockReturnValue(true);
+    const breaker = new CircuitBreakerRetryStrategy(inner, { failureThreshold: 1 });
+    const error = new APIError('Service Unavailable', 503);
+
+    expect(breaker.shouldRetry(1, error)).toBe(true);
+    breaker.onFailure(error);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.shouldRetry(1, error)).toBe(false);
+  });
+});
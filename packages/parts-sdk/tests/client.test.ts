@@ -1,10 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { PartsAPIClient, createPartsAPIClient, type PartsAPIConfig } from '../src/index.js';
+import { PartsAPIClient, PartsAPIClientFactory, createPartsAPIClient, type PartsAPIConfig } from '../src/index.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+function jsonResponse(body: unknown, status = 200, statusText = 'OK'): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: new Headers({ 'content-type': 'application/json' })
+  });
+}
+
 describe('PartsAPIClient', () => {
   let client: PartsAPIClient;
   let config: PartsAPIConfig;
@@ -15,7 +23,7 @@ describe('PartsAPIClient', () => {
       apiKey: 'test-api-key',
       timeout: 5000
     };
-    client = new PartsAPIClient(config);
+    client = createPartsAPIClient(config);
     mockFetch.mockClear();
   });
 
@@ -25,7 +33,7 @@ describe('PartsAPIClient', () => {
     });
 
     it('should apply default timeout if not provided', () => {
-      const clientWithoutTimeout = new PartsAPIClient({
+      const clientWithoutTimeout = createPartsAPIClient({
         baseUrl: 'https://api.example.com'
       });
       expect(clientWithoutTimeout).toBeInstanceOf(PartsAPIClient);
@@ -34,19 +42,13 @@ describe('PartsAPIClient', () => {
 
   describe('searchParts', () => {
     it('should make GET request with query parameters', async () => {
-      const mockResponse = {
-        ok: true,
-        headers: {
-          get: (name: string) => name === 'content-type' ? 'application/json' : null
-        },
-        json: () => Promise.resolve({
-          parts: [],
-          total: 0,
-          page: 1,
-          limit: 10,
-          totalPages: 0
-        })
-      };
+      const mockResponse = jsonResponse({
+        parts: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0
+      });
       mockFetch.mockResolvedValue(mockResponse);
 
       const searchDto = {
@@ -70,20 +72,51 @@ describe('PartsAPIClient', () => {
       );
     });
 
-    it('should handle search with no filters', async () => {
-      const mockResponse = {
-        ok: true,
-        headers: {
-          get: (name: string) => name === 'content-type' ? 'application/json' : null
-        },
-        json: () => Promise.resolve({
-          parts: [],
-          total: 0,
-          page: 1,
-          limit: 10,
-          totalPages: 0
-        })
+    it('should serialize sort options as field:direction pairs', async () => {
+      const mockResponse = jsonResponse({
+        parts: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0
+      });
+      mockFetch.mockResolvedValue(mockResponse);
+
+      await client.searchParts({
+        sort: [{ field: 'price', direction: 'desc' }, { field: 'name' }]
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/parts/search?sort=price%3Adesc%2Cname%3Aasc',
+        expect.any(Object)
+      );
+    });
+
+    it('should request facets with comma-separated price buckets', async () => {
+      const facets = {
+        categories: [{ value: 'Brakes', count: 2 }],
+        statuses: [{ value: 'ACTIVE', count: 2 }],
+        priceBuckets: [{ max: 100, count: 1 }, { min: 100, count: 1 }]
       };
+      mockFetch.mockResolvedValue(jsonResponse({ parts: [], total: 2, page: 1, limit: 10, totalPages: 1, facets }));
+
+      const result = await client.searchParts({ includeFacets: true, priceBuckets: [50, 100] });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/parts/search?includeFacets=true&priceBuckets=50%2C100',
+        expect.any(Object)
+      );
+      expect(result.facets).toEqual(facets);
+    });
+
+    it('should handle search with no filters', async () => {
+      const mockResponse = jsonResponse({
+        parts: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0
+      });
       mockFetch.mockResolvedValue(mockResponse);
 
       await client.searchParts({});
@@ -95,6 +128,29 @@ describe('PartsAPIClient', () => {
     });
   });
 
+  describe('suggestParts', () => {
+    it('should request suggestions for the typed text', async () => {
+      const suggestions = [{ text: 'Brake Disc Set', field: 'name', partId: '2', highlights: [{ start: 0, end: 5 }] }];
+      mockFetch.mockResolvedValue(jsonResponse({ suggestions }));
+
+      const result = await client.suggestParts('brake d', { limit: 5 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/parts/suggest?query=brake+d&limit=5',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(result.suggestions).toEqual(suggestions);
+    });
+
+    it('should not send or retry a request whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.suggestParts('br', { signal: controller.signal })).rejects.toThrow();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getPartById', () => {
     it('should make GET request to specific part endpoint', async () => {
       const mockPart = {
@@ -109,13 +165,7 @@ describe('PartsAPIClient', () => {
         updatedAt: new Date()
       };
 
-      const mockResponse = {
-        ok: true,
-        headers: {
-          get: (name: string) => name === 'content-type' ? 'application/json' : null
-        },
-        json: () => Promise.resolve(mockPart)
-      };
+      const mockResponse = jsonResponse(mockPart);
       mockFetch.mockResolvedValue(mockResponse);
 
       const result = await client.getPartById('1');
@@ -149,19 +199,13 @@ describe('PartsAPIClient', () => {
         category: 'Test'
       };
 
-      const mockResponse = {
-        ok: true,
-        headers: {
-          get: (name: string) => name === 'content-type' ? 'application/json' : null
-        },
-        json: () => Promise.resolve({
-          id: '123',
-          ...createDto,
-          status: 'ACTIVE',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        })
-      };
+      const mockResponse = jsonResponse({
+        id: '123',
+        ...createDto,
+        status: 'ACTIVE',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
       mockFetch.mockResolvedValue(mockResponse);
 
       await client.createPart(createDto);
@@ -178,17 +222,22 @@ describe('PartsAPIClient', () => {
 
   describe('error handling', () => {
     it('should throw error when API request fails', async () => {
-      const mockResponse = {
-        ok: false,
-        status: 404,
-        statusText: 'Not Found'
-      };
-      mockFetch.mockResolvedValue(mockResponse);
+      mockFetch.mockResolvedValue(new Response(null, { status: 404, statusText: 'Not Found' }));
 
       await expect(client.getPartById('nonexistent')).rejects.toThrow(
         'API request failed: 404 Not Found'
       );
     });
+
+    it('should use the message from an error response body', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(
+        { message: 'Part not found', code: 'PART_NOT_FOUND', timestamp: '2024-01-01T00:00:00Z' },
+        404,
+        'Not Found'
+      ));
+
+      await expect(client.getPartById('nonexistent')).rejects.toThrow('Part not found');
+    });
   });
 });
 
@@ -199,3 +248,20 @@ describe('createPartsAPIClient factory', () => {
     expect(client).toBeInstanceOf(PartsAPIClient);
   });
 });
+
+describe('PartsAPIClientFactory.create', () => {
+  it('should target the environment base URL with bearer auth', async () => {
+    mockFetch.mockClear();
+    mockFetch.mockResolvedValue(jsonResponse({ parts: [], total: 0, page: 1, limit: 10, totalPages: 0 }));
+
+    const client = PartsAPIClientFactory.create({ environment: 'staging', apiKey: 'staging-key' });
+    await client.searchParts({ name: 'disc' });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api-staging.partsy.com/v1/parts/search?name=disc',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'Authorization': 'Bearer staging-key' })
+      })
+    );
+  });
+});
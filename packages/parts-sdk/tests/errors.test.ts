@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { FetchHttpClient } from '../src/infrastructure/FetchHttpClient.js';
+import { MockPartsAPIClient } from '../src/client/MockPartsAPIClient.js';
+import {
+  APIError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError
+} from '../src/errors.js';
+import type { HttpClient } from '../src/contracts/index.js';
+
+function createClient(status: number, data: unknown, headers: Record<string, string> = {}) {
+  const request = vi.fn(async () => ({ data, status, statusText: String(status), headers }));
+  return new PartsAPIClientBuilder()
+    .setBaseUrl('https://api.example.com')
+    .setHttpClient({ request } as HttpClient)
+    .withNoRetry()
+    .build();
+}
+
+describe('typed API errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    [401, UnauthorizedError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [429, RateLimitedError],
+    [503, ServerError]
+  ])('should map %i responses to their error class', async (status, ErrorClass) => {
+    const error = await createClient(status, {}).getPartById('p1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.status).toBe(status);
+  });
+
+  it('should carry the code, request ID and field violations from the Error body', async () => {
+    const body = {
+      message: 'Validation failed',
+      code: 'VALIDATION_ERROR',
+      requestId: 'req-7',
+      errors: [{ field: 'price', message: 'Number must be greater than or equal to 0', code: 'MIN_VALUE' }],
+      timestamp: '2024-01-15T10:30:00Z'
+    };
+
+    const error = await createClient(400, body).createPart({} as never).catch(e => e);
+
+    expect(error.constructor).toBe(APIError);
+    expect(error).toMatchObject({ message: 'Validation failed', code: 'VALIDATION_ERROR', requestId: 'req-7' });
+    expect(error.violations).toEqual(body.errors);
+  });
+
+  it('should fall back to the X-Request-ID header and read Retry-After for rate limits', async () => {
+    const client = createClient(429, { message: 'Slow down', code: 'RATE_LIMITED' }, { 'x-request-id': 'req-9', 'retry-after': '2' });
+
+    const error = await client.searchParts({}).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', requestId: 'req-9', retryAfterMs: 2000, violations: [] });
+  });
+
+  it('should raise a TimeoutError when no response arrives in time', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    })));
+
+    const error = await new FetchHttpClient().request({ url: 'https://api.example.com/parts/p1', method: 'GET', timeout: 10 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(10);
+  });
+
+  it('should time out a response whose body arrives too slowly', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => ({
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      })
+    })));
+
+    const error = await new FetchHttpClient().request({ url: 'https://api.example.com/parts/p1', method: 'GET', timeout: 10 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should raise a NetworkError for any fetch TypeError', async () => {
+    const cause = new TypeError('Load failed');
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(cause));
+
+    const error = await new FetchHttpClient().request({ url: 'https://api.example.com/parts/p1', method: 'GET' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should reject from the mock client with the same error classes as the real one', async () => {
+    const client = new MockPartsAPIClient(0);
+    const [existing] = (await client.searchParts({ limit: 1 })).parts;
+
+    await expect(client.getPartById('missing')).rejects.toMatchObject({ name: 'NotFoundError', status: 404, code: 'PART_NOT_FOUND' });
+    await expect(client.deletePart('missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client.createPart({ partNumber: existing!.partNumber, name: 'Copy', price: 1, quantity: 1, category: 'Engine' }))
+      .rejects.toMatchObject({ name: 'ConflictError', status: 409, code: 'PART_ALREADY_EXISTS' });
+  });
+
+  it('should keep a Response passed the old way on the deprecated response field', () => {
+    const response = new Response(null, { status: 500 });
+    const error = new APIError('Server failed', 500, 'Internal Server Error', response);
+
+    expect(error.response).toBe(response);
+    expect(error.violations).toEqual([]);
+  });
+});
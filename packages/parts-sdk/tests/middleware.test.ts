@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { LoggingMiddleware, RequestIdMiddleware, TimingMiddleware } from '../src/infrastructure/Middlewares.js';
+import type { HttpClient, HttpMiddleware, HttpRequestOptions } from '../src/contracts/index.js';
+
+const emptyResults = { parts: [], total: 0, page: 1, limit: 10, totalPages: 0 };
+
+function createHttpClient(status = 200) {
+  const request = vi.fn(async (_options: HttpRequestOptions) => ({
+    data: emptyResults,
+    status,
+    statusText: status === 200 ? 'OK' : 'Server Error',
+    headers: {}
+  }));
+  return { httpClient: { request } as HttpClient, request };
+}
+
+function createBuilder(httpClient: HttpClient) {
+  return new PartsAPIClientBuilder()
+    .setBaseUrl('https://api.example.com')
+    .setHttpClient(httpClient)
+    .withExponentialBackoffRetry(2, 0, 0);
+}
+
+describe('HTTP middleware', () => {
+  it('should run middlewares in registration order around the HTTP client', async () => {
+    const { httpClient } = createHttpClient();
+    const calls: string[] = [];
+    const track = (name: string): HttpMiddleware => ({
+      async handle(options, next) {
+        calls.push(`${name}:before`);
+        const response = await next(options);
+        calls.push(`${name}:after`);
+        return response;
+      }
+    });
+
+    await createBuilder(httpClient).use(track('outer')).use(track('inner')).build().searchParts({});
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+  });
+
+  it('should let middlewares rewrite the request', async () => {
+    const { httpClient, request } = createHttpClient();
+    const client = createBuilder(httpClient)
+      .withBearerToken('token')
+      .use({ handle: (options, next) => next({ ...options, url: options.url.replace('/parts', '/v2/parts') }) })
+      .use(new RequestIdMiddleware('X-Correlation-ID', () => 'req-1'))
+      .build();
+
+    await client.searchParts({ name: 'disc' });
+
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://api.example.com/v2/parts/search?name=disc',
+      headers: { 'Authorization': 'Bearer token', 'X-Correlation-ID': 'req-1' }
+    }));
+  });
+
+  it('should see every retry attempt', async () => {
+    const { httpClient } = createHttpClient(503);
+    const onTiming = vi.fn();
+    const logger = { info: vi.fn(), error: vi.fn() };
+
+    const client = createBuilder(httpClient)
+      .use(new LoggingMiddleware(logger))
+      .use(new TimingMiddleware(onTiming))
+      .build();
+
+    await expect(client.searchParts({})).rejects.toThrow('503');
+
+    expect(onTiming).toHaveBeenCalledTimes(2);
+    expect(onTiming).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      url: 'https://api.example.com/parts/search',
+      status: 503,
+      durationMs: expect.any(Number)
+    }));
+    expect(logger.info).toHaveBeenCalledWith('<-- 503 GET https://api.example.com/parts/search');
+  });
+
+  it('should log and report requests that fail without a response', async () => {
+    const httpClient: HttpClient = { request: vi.fn().mockRejectedValue(new Error('socket hang up')) };
+    const onTiming = vi.fn();
+    const logger = { info: vi.fn(), error: vi.fn() };
+
+    const client = createBuilder(httpClient)
+      .withNoRetry()
+      .use(new LoggingMiddleware(logger))
+      .use(new TimingMiddleware(onTiming))
+      .build();
+
+    await expect(client.getPartById('p1')).rejects.toThrow('socket hang up');
+
+    expect(logger.error).toHaveBeenCalledWith('<-- failed GET https://api.example.com/parts/p1: socket hang up');
+    expect(onTiming).toHaveBeenCalledWith(expect.objectContaining({ status: undefined }));
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { OAuth2ClientCredentialsStrategy } from '../src/infrastructure/AuthStrategies.js';
+import { AbortedError, APIError, AuthenticationError, TimeoutError } from '../src/errors.js';
+import type { HttpClient, HttpRequestOptions } from '../src/contracts/index.js';
+
+const emptyResults = { parts: [], total: 0, page: 1, limit: 10, totalPages: 0 };
+
+describe('OAuth2ClientCredentialsStrategy', () => {
+  let server: Server;
+  let tokenUrl: string;
+  let tokenRequests: URLSearchParams[];
+  let tokenStatus: number;
+  let expiresIn: number;
+
+  beforeEach(async () => {
+    tokenRequests = [];
+    tokenStatus = 200;
+    expiresIn = 3600;
+    // Token endpoint stub: issues token-1, token-2, ... and answers slowly enough for requests to overlap
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        tokenRequests.push(new URLSearchParams(body));
+        setTimeout(() => {
+          res.writeHead(tokenStatus, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(tokenStatus === 200
+            ? { access_token: `token-${tokenRequests.length}`, token_type: 'bearer', expires_in: expiresIn }
+            : { error: 'invalid_client' }));
+        }, 20);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    tokenUrl = `http://localhost:${(server.address() as AddressInfo).port}/oauth/token`;
+  });
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  function createStrategy() {
+    return new OAuth2ClientCredentialsStrategy({ tokenUrl, clientId: 'parts-sync', clientSecret: 's3cret', scope: 'parts:read' });
+  }
+
+  function createClient(statuses: number[]) {
+    const request = vi.fn(async (_options: HttpRequestOptions) => {
+      const status = statuses.shift() ?? 200;
+      return { data: status === 200 ? emptyResults : {}, status, statusText: String(status), headers: {} };
+    });
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .withNoRetry()
+      .withOAuth2ClientCredentials({ tokenUrl, clientId: 'parts-sync', clientSecret: 's3cret' })
+      .build();
+    return { client, request };
+  }
+
+  it('should request a token with the client credentials grant and cache it', async () => {
+    const strategy = createStrategy();
+
+    expect(await strategy.authenticate({})).toEqual({ 'Authorization': 'Bearer token-1' });
+    expect(await strategy.authenticate({})).toEqual({ 'Authorization': 'Bearer token-1' });
+
+    expect(tokenRequests).toHaveLength(1);
+    expect(Object.fromEntries(tokenRequests[0]!)).toEqual({
+      grant_type: 'client_credentials',
+      client_id: 'parts-sync',
+      client_secret: 's3cret',
+      scope: 'parts:read'
+    });
+  });
+
+  it('should share one token request between concurrent callers', async () => {
+    const strategy = createStrategy();
+
+    const headers = await Promise.all([strategy.authenticate({}), strategy.authenticate({}), strategy.authenticate({})]);
+
+    expect(tokenRequests).toHaveLength(1);
+    expect(headers.map(h => h['Authorization'])).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+  });
+
+  it('should renew tokens that are about to expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const strategy = createStrategy();
+
+      await strategy.authenticate({});
+      vi.advanceTimersByTime(3600_000 - 30_000);
+      expect(await strategy.authenticate({})).toEqual({ 'Authorization': 'Bearer token-2' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reuse tokens that live no longer than the refresh margin for half their lifetime', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      expiresIn = 10;
+      const strategy = createStrategy();
+
+      await strategy.authenticate({});
+      vi.advanceTimersByTime(4_000);
+      expect(await strategy.authenticate({})).toEqual({ 'Authorization': 'Bearer token-1' });
+      vi.advanceTimersByTime(1_000);
+      expect(await strategy.authenticate({})).toEqual({ 'Authorization': 'Bearer token-2' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should refresh the token and replay once when the API answers 401', async () => {
+    const { client, request } = createClient([401, 200]);
+
+    await expect(client.searchParts({})).resolves.toEqual(emptyResults);
+
+    expect(request.mock.calls.map(([options]) => options.headers?.['Authorization'])).toEqual(['Bearer token-1', 'Bearer token-2']);
+  });
+
+  it('should renew the token once when concurrent requests are rejected with it', async () => {
+    // Only the first token has been revoked. The second page's 401 arrives after the
+    // first request has already renewed the token
+    const request = vi.fn(async ({ url, headers }: HttpRequestOptions) => {
+      if (headers?.['Authorization'] !== 'Bearer token-1') {
+        return { data: emptyResults, status: 200, statusText: 'OK', headers: {} };
+      }
+      await new Promise(resolve => setTimeout(resolve, url.includes('page=2') ? 100 : 0));
+      return { data: {}, status: 401, statusText: 'Unauthorized', headers: {} };
+    });
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .withNoRetry()
+      .withOAuth2ClientCredentials({ tokenUrl, clientId: 'parts-sync', clientSecret: 's3cret' })
+      .build();
+
+    await expect(Promise.all([client.searchParts({}), client.searchParts({ page: 2 })])).resolves.toHaveLength(2);
+
+    expect(tokenRequests).toHaveLength(2);
+    expect(request.mock.calls.slice(2).map(([options]) => options.headers?.['Authorization'])).toEqual(['Bearer token-2', 'Bearer token-2']);
+  });
+
+  it('should time out slow token requests', async () => {
+    const strategy = createStrategy();
+
+    const error = await strategy.authenticate({}, { timeout: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.cause).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should stop waiting for a token when the caller aborts, without failing other callers', async () => {
+    const strategy = createStrategy();
+    const controller = new AbortController();
+
+    const aborted = strategy.authenticate({}, { signal: controller.signal });
+    const other = strategy.authenticate({});
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+    expect(await other).toEqual({ 'Authorization': 'Bearer token-1' });
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  it('should give up when the replayed request is still unauthorized', async () => {
+    const { client, request } = createClient([401, 401]);
+
+    await expect(client.searchParts({})).rejects.toSatisfy(error => error instanceof APIError && error.status === 401);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject with an AuthenticationError when the token endpoint refuses the credentials', async () => {
+    tokenStatus = 401;
+    const { client, request } = createClient([]);
+
+    await expect(client.searchParts({})).rejects.toBeInstanceOf(AuthenticationError);
+    expect(tokenRequests).toHaveLength(1);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
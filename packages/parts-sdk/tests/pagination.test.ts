@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockPartsAPIClient } from '../src/client/MockPartsAPIClient.js';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import type { HttpClient, HttpRequestOptions, PartDTO } from '../src/contracts/index.js';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('pagination', () => {
+  it('should iterate every matching part across pages', async () => {
+    const client = new MockPartsAPIClient(0);
+    const searchParts = vi.spyOn(client, 'searchParts');
+
+    const parts = await collect(client.searchAllParts({ sort: [{ field: 'price' }] }, { pageSize: 2 }));
+
+    expect(parts.map(p => p.partNumber)).toEqual(['BRK-002', 'SUS-003', 'ENG-001']);
+    expect(searchParts.mock.calls.map(([dto]) => [dto.page, dto.limit])).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it('should yield whole pages and stop at maxItems', async () => {
+    const client = new MockPartsAPIClient(0);
+    const searchParts = vi.spyOn(client, 'searchParts');
+
+    const pages = await collect(client.searchPartsPages({}, { pageSize: 1, maxItems: 2 }));
+
+    expect(pages.map(page => [page.page, page.parts.length, page.totalPages])).toEqual([[1, 1, 3], [2, 1, 3]]);
+    expect(searchParts).toHaveBeenCalledTimes(2);
+  });
+
+  it('should trim the page that reaches maxItems', async () => {
+    const parts = await collect(new MockPartsAPIClient(0).searchAllParts({}, { pageSize: 2, maxItems: 1 }));
+
+    expect(parts).toHaveLength(1);
+  });
+
+  it('should stop requesting pages once aborted', async () => {
+    const client = new MockPartsAPIClient(0);
+    const searchParts = vi.spyOn(client, 'searchParts');
+    const controller = new AbortController();
+    const seen: PartDTO[] = [];
+
+    const iterate = async () => {
+      for await (const part of client.searchAllParts({}, { pageSize: 1, signal: controller.signal })) {
+        seen.push(part);
+        controller.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow();
+    expect(seen).toHaveLength(1);
+    expect(searchParts).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request pages through the HTTP client with the search filters', async () => {
+    const request = vi.fn(async (options: HttpRequestOptions) => {
+      const page = Number(new URL(options.url).searchParams.get('page'));
+      const part = { id: `p${page}`, partNumber: `P-${page}`, name: 'Part', price: 1, quantity: 1, status: 'ACTIVE', category: 'Engine', createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' };
+      return { data: { parts: [part], total: 2, page, limit: 1, totalPages: 2 }, status: 200, statusText: 'OK', headers: {} };
+    });
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .build();
+
+    const parts = await collect(client.searchAllParts({ category: 'Engine', limit: 1 }));
+
+    expect(parts.map(p => p.id)).toEqual(['p1', 'p2']);
+    expect(request.mock.calls.map(([options]) => options.url)).toEqual([
+      'https://api.example.com/parts/search?category=Engine&limit=1&page=1',
+      'https://api.example.com/parts/search?category=Engine&limit=1&page=2'
+    ]);
+  });
+
+  it('should follow cursors when the server hands them out', async () => {
+    const client = new MockPartsAPIClient(0);
+    const searchParts = vi.spyOn(client, 'searchParts');
+
+    const pages = await collect(client.searchPartsPages({ sort: [{ field: 'price' }] }, { pageSize: 2 }));
+
+    expect(pages.map(page => [page.page, page.parts.length])).toEqual([[1, 2], [2, 1]]);
+    expect(searchParts.mock.calls.map(([dto]) => dto.cursor)).toEqual([undefined, pages[0]!.nextCursor]);
+    expect(pages[1]!.nextCursor).toBeUndefined();
+    expect(pages[1]!.prevCursor).toBeDefined();
+  });
+});
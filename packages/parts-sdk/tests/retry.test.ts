@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import {
+  ExponentialBackoffRetryStrategy,
+  FixedDelayRetryStrategy,
+  parseRetryAfter
+} from '../src/infrastructure/RetryStrategies.js';
+import { APIError } from '../src/errors.js';
+import type { HttpClient, HttpResponse, RetryContext } from '../src/contracts/index.js';
+
+function failedWith(status: number, headers: Record<string, string> = {}, elapsedMs = 0): RetryContext {
+  const response: HttpResponse<unknown> = { data: {}, status, statusText: String(status), headers };
+  return { response, elapsedMs };
+}
+
+describe('retry strategies', () => {
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2024-01-15T10:30:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:30:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  it('should retry 429 and 503 after the Retry-After delay', () => {
+    const strategy = new ExponentialBackoffRetryStrategy(3, 100, 1000);
+    const tooMany = failedWith(429, { 'Retry-After': '2' });
+
+    expect(strategy.shouldRetry(1, new APIError('Too Many Requests', 429), tooMany)).toBe(true);
+    expect(strategy.getRetryDelay(1, tooMany)).toBe(2000);
+    expect(strategy.getRetryDelay(1, failedWith(503, { 'retry-after': '1' }))).toBe(1000);
+    // Only 429 and 503 carry a meaningful Retry-After
+    expect(strategy.getRetryDelay(1, failedWith(500, { 'retry-after': '1' }))).toBe(100);
+    expect(strategy.shouldRetry(1, new APIError('Not Found', 404), failedWith(404))).toBe(false);
+  });
+
+  it('should spread delays with full and decorrelated jitter', () => {
+    const full = new ExponentialBackoffRetryStrategy(5, 100, 1000, { jitter: 'full', random: () => 0.5 });
+    const decorrelated = new ExponentialBackoffRetryStrategy(5, 100, 1000, { jitter: 'decorrelated', random: () => 0.5 });
+
+    expect(full.getRetryDelay(3)).toBe(200);
+    expect(decorrelated.getRetryDelay(1)).toBe(200);
+    expect(decorrelated.getRetryDelay(2, { elapsedMs: 200, previousDelayMs: 200 })).toBe(350);
+    expect(decorrelated.getRetryDelay(3, { elapsedMs: 550, previousDelayMs: 900 })).toBe(1000);
+  });
+
+  it('should cap cumulative waiting at the time budget', () => {
+    const strategy = new FixedDelayRetryStrategy(10, 1000, { budgetMs: 2500 });
+    const error = new APIError('Bad Gateway', 502);
+
+    expect(strategy.getRetryDelay(3, failedWith(502, {}, 2000))).toBe(500);
+    expect(strategy.shouldRetry(4, error, failedWith(502, {}, 2500))).toBe(false);
+    // Retry-After beyond the budget: give up now rather than be refused again
+    expect(strategy.shouldRetry(1, new APIError('Too Many Requests', 429), failedWith(429, { 'retry-after': '5' }))).toBe(false);
+  });
+
+  it('should hand the failed response to the strategy', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce({ data: { message: 'Slow down' }, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '0' } })
+      .mockResolvedValueOnce({ data: { parts: [], total: 0, page: 1, limit: 10, totalPages: 0 }, status: 200, statusText: 'OK', headers: {} });
+    const strategy = new ExponentialBackoffRetryStrategy(2, 1000);
+    const getRetryDelay = vi.spyOn(strategy, 'getRetryDelay');
+
+    const client = new PartsAPIClientBuilder()
+      .setBaseUrl('https://api.example.com')
+      .setHttpClient({ request } as HttpClient)
+      .setRetryStrategy(strategy)
+      .build();
+
+    await client.searchParts({});
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(getRetryDelay).toHaveReturnedWith(0);
+    expect(getRetryDelay.mock.calls[0]![1]).toMatchObject({ response: { status: 429 }, previousDelayMs: undefined });
+  });
+});
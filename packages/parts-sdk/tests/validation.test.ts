@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { PartStatus } from '@partsy/parts-domain';
+import { PartsAPIClientBuilder } from '../src/client/PartsAPIClientFactory.js';
+import { ValidationError } from '../src/errors.js';
+import { PartSchema, SearchPartsQuerySchema, findOperation, parseWithSchema } from '../src/validation/index.js';
+import type { HttpClient } from '../src/contracts/index.js';
+import { generateSchemas } from '../scripts/generate-schemas.mjs';
+
+const part = {
+  id: 'p1',
+  partNumber: 'BRK-002',
+  name: 'Brake Disc Set',
+  price: 150,
+  quantity: 20,
+  status: 'ACTIVE',
+  category: 'Brakes',
+  createdAt: '2024-01-15T10:30:00.000Z',
+  updatedAt: '2024-01-15T10:30:00.000Z'
+};
+
+function createClient(data: unknown) {
+  const request = vi.fn(async () => ({ data, status: 200, statusText: 'OK', headers: {} }));
+  const client = new PartsAPIClientBuilder()
+    .setBaseUrl('https://api.example.com')
+    .setHttpClient({ request } as HttpClient)
+    .withExponentialBackoffRetry(3, 0, 0)
+    .withResponseValidation()
+    .build();
+  return { client, request };
+}
+
+describe('generated schemas', () => {
+  it('should match docs/api-specification.yaml', () => {
+    const spec = readFileSync(new URL('../../../docs/api-specification.yaml', import.meta.url), 'utf8');
+    const generated = readFileSync(new URL('../src/validation/schemas.ts', import.meta.url), 'utf8');
+
+    // Run `pnpm generate:schemas` if this fails after a spec change
+    expect(generateSchemas(spec)).toBe(generated);
+  });
+
+  it('should accept every status the domain defines', () => {
+    for (const status of Object.values(PartStatus)) {
+      expect(PartSchema.safeParse({ ...part, status }).success).toBe(true);
+    }
+  });
+
+  it('should coerce query strings and apply spec defaults', () => {
+    const query = parseWithSchema(SearchPartsQuerySchema, { minPrice: '10', inStock: 'true' }, 'Query');
+    expect(query).toEqual({ minPrice: 10, inStock: true, fuzzy: false, includeFacets: false, page: 1, limit: 10 });
+  });
+
+  it('should report every violation with its field path', () => {
+    try {
+      parseWithSchema(SearchPartsQuerySchema, { limit: '500', status: 'SOLD', sort: 'color' }, 'Query');
+      expect.fail('expected a ValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).violations.map(v => `${v.field}:${v.code}`)).toEqual([
+        'status:INVALID_ENUM',
+        'sort:PATTERN',
+        'limit:MAX_VALUE'
+      ]);
+    }
+  });
+
+  it('should match request paths to spec operations', () => {
+    expect(findOperation('get', '/parts/abc-123')?.path).toBe('/parts/{id}');
+    expect(findOperation('GET', '/parts/search?name=disc')?.path).toBe('/parts/search');
+    expect(findOperation('PATCH', '/parts/abc-123')).toBeUndefined();
+  });
+});
+
+describe('withResponseValidation', () => {
+  it('should pass valid responses on to the date transformer', async () => {
+    const { client } = createClient({ parts: [part], total: 1, page: 1, limit: 10, totalPages: 1 });
+
+    const result = await client.searchParts({ name: 'disc' });
+
+    expect(result.parts[0]!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should accept an empty search, which has no pages', async () => {
+    const { client } = createClient({ parts: [], total: 0, page: 1, limit: 10, totalPages: 0 });
+
+    await expect(client.searchParts({ name: 'nothing matches' })).resolves.toMatchObject({ parts: [], totalPages: 0 });
+  });
+
+  it('should reject malformed responses with field paths and not retry them', async () => {
+    const { client, request } = createClient({
+      parts: [{ ...part, price: '150.00', status: undefined }],
+      total: 1,
+      page: 1,
+      limit: 10,
+      totalPages: 1
+    });
+
+    const error = await client.searchParts({}).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.field).toBe('parts[0].price');
+    expect(error.violations).toEqual([
+      { field: 'parts[0].price', message: 'Expected number, received string', code: 'INVALID_TYPE' },
+      { field: 'parts[0].status', message: 'Required', code: 'REQUIRED' }
+    ]);
+    expect(error.message).toContain('Response for GET /parts/search is invalid');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate single-part responses by path template', async () => {
+    const { client } = createClient({ ...part, quantity: -1 });
+
+    await expect(client.getPartById('p1')).rejects.toMatchObject({ field: 'quantity', code: 'MIN_VALUE' });
+  });
+});
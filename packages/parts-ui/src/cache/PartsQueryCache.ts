@@ -0,0 +1,384 @@
+import type { PartDTO, SearchPartsDTO, SearchPartsResponseDTO } from '@partsy/sdk';
+
+export interface PartsQueryCacheOptions {
+  // How long data counts as fresh; stale data is still served while it is refetched
+  staleTime?: number;
+  // How long data nobody observes is kept before it is dropped
+  gcTime?: number;
+}
+
+// Search results hold part ids; the parts themselves live once in the part entries
+type NormalizedSearch = Omit<SearchPartsResponseDTO, 'parts'> & { partIds: string[] };
+
+// T is what the entry stores, R what its fetcher returns
+interface Entry<T, R = T> {
+  data?: T;
+  // 0 when never fetched or invalidated
+  updatedAt: number;
+  promise?: Promise<R>;
+  // Repeats the last fetch and stores its result, for refetching on invalidation
+  refetch?: () => Promise<R>;
+  observers: number;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// An entry as it was before an optimistic change; entry is undefined when there was none
+interface EntrySnapshot<T> {
+  entry?: Entry<T, unknown>;
+  data?: T;
+  updatedAt: number;
+}
+
+/**
+ * Stable key for a search: the same criteria give the same key whatever the
+ * property order, and undefined properties are ignored
+ */
+export function toSearchKey(criteria: SearchPartsDTO): string {
+  return JSON.stringify(criteria, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+/**
+ * Normalized client-side cache for parts queries. Searches are keyed by their
+ * criteria and parts by id; a part returned by any search is stored once and
+ * shared by every search and part lookup that includes it.
+ * Framework-agnostic; PartsQueryProvider makes it available to the hooks
+ */
+export class PartsQueryCache {
+  private readonly searches = new Map<string, Entry<NormalizedSearch, SearchPartsResponseDTO>>();
+  private readonly parts = new Map<string, Entry<PartDTO>>();
+  private readonly listeners = new Set<() => void>();
+  private readonly staleTime: number;
+  private readonly gcTime: number;
+
+  constructor({ staleTime = 30_000, gcTime = 5 * 60_000 }: PartsQueryCacheOptions = {}) {
+    this.staleTime = staleTime;
+    this.gcTime = gcTime;
+  }
+
+  /**
+   * Calls listener after every change to the cached data
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSearch(criteria: SearchPartsDTO): SearchPartsResponseDTO | undefined {
+    const data = this.searches.get(toSearchKey(criteria))?.data;
+    if (!data) {
+      return undefined;
+    }
+    const { partIds, ...rest } = data;
+    const parts = partIds.flatMap(id => this.parts.get(id)?.data ?? []);
+    return { ...rest, parts };
+  }
+
+  getPart(id: string): PartDTO | undefined {
+    return this.parts.get(id)?.data;
+  }
+
+  isSearchStale(criteria: SearchPartsDTO): boolean {
+    return this.isStale(this.searches.get(toSearchKey(criteria)));
+  }
+
+  isPartStale(id: string): boolean {
+    return this.isStale(this.parts.get(id));
+  }
+
+  /**
+   * Runs fetcher and stores its response, unless the same search is already
+   * in flight, in which case that request is shared
+   */
+  async fetchSearch(criteria: SearchPartsDTO, fetcher: () => Promise<SearchPartsResponseDTO>): Promise<SearchPartsResponseDTO> {
+    const key = toSearchKey(criteria);
+    const entry = this.entry(this.searches, key);
+    entry.refetch = async () => {
+      const response = await fetcher();
+      this.writeSearch(entry, response);
+      return response;
+    };
+    return this.run(entry, () => this.collectSearch(key));
+  }
+
+  /**
+   * Runs fetcher and stores the part, unless it is already being fetched
+   */
+  async fetchPart(id: string, fetcher: () => Promise<PartDTO>): Promise<PartDTO> {
+    const entry = this.entry(this.parts, id);
+    entry.refetch = async () => {
+      const part = await fetcher();
+      this.writePart(part);
+      return part;
+    };
+    return this.run(entry, () => this.collectParts([id]));
+  }
+
+  setSearch(criteria: SearchPartsDTO, response: SearchPartsResponseDTO): void {
+    const key = toSearchKey(criteria);
+    const entry = this.entry(this.searches, key);
+    this.writeSearch(entry, response);
+    this.scheduleGc(entry, () => this.collectSearch(key));
+  }
+
+  setPart(part: PartDTO): void {
+    this.writePart(part);
+    this.scheduleGc(this.parts.get(part.id)!, () => this.collectParts([part.id]));
+  }
+
+  /**
+   * Takes a part out of every cached search, e.g. once it is deleted. A part still
+   * observed keeps its entry, without data, so its observers stay counted
+   */
+  removePart(id: string): void {
+    for (const entry of this.searches.values()) {
+      const { data } = entry;
+      if (data?.partIds.includes(id)) {
+        const total = data.total - 1;
+        entry.data = {
+          ...data,
+          partIds: data.partIds.filter(partId => partId !== id),
+          total,
+          totalPages: Math.ceil(total / data.limit)
+        };
+      }
+    }
+    const entry = this.parts.get(id);
+    if (entry && entry.observers > 0) {
+      entry.data = undefined;
+    } else if (entry) {
+      clearTimeout(entry.gcTimer);
+      this.parts.delete(id);
+    }
+    this.notify();
+  }
+
+  /**
+   * Runs change, an optimistic edit of the given parts, and returns a function that
+   * undoes it. Only those parts and the searches listing them are put back, and
+   * only where they still hold what change left, so data that arrived in the
+   * meantime, e.g. a refetch or another mutation's result, is kept.
+   * The edit leaves each entry's age as it was: unconfirmed data is no fresher
+   * than what it replaced, and doesn't hold off a refetch
+   */
+  applyOptimistic(partIds: string[], change: () => void): () => void {
+    const searchKeys = [...this.searches]
+      .filter(([, { data }]) => data?.partIds.some(id => partIds.includes(id)))
+      .map(([key]) => key);
+    const searches = searchKeys.map(key => this.snapshot(this.searches, key));
+    const parts = partIds.map(id => this.snapshot(this.parts, id));
+
+    change();
+    searchKeys.forEach((key, index) => this.keepAge(this.searches, key, searches[index]!));
+    partIds.forEach((id, index) => this.keepAge(this.parts, id, parts[index]!));
+    const changedSearches = searchKeys.map(key => this.searches.get(key)?.data);
+    const changedParts = partIds.map(id => this.parts.get(id)?.data);
+
+    return () => {
+      searchKeys.forEach((key, index) => {
+        this.restore(this.searches, key, searches[index]!, changedSearches[index], () => this.collectSearch(key));
+      });
+      partIds.forEach((id, index) => {
+        this.restore(this.parts, id, parts[index]!, changedParts[index], () => this.collectParts([id]));
+      });
+      this.notify();
+    };
+  }
+
+  /**
+   * Keeps a search and its parts cached while at least one observer remains;
+   * call the returned function to stop observing
+   */
+  observeSearch(criteria: SearchPartsDTO): () => void {
+    const key = toSearchKey(criteria);
+    return this.observe(this.entry(this.searches, key), () => this.collectSearch(key));
+  }
+
+  observePart(id: string): () => void {
+    return this.observe(this.entry(this.parts, id), () => this.collectParts([id]));
+  }
+
+  /**
+   * Marks searches stale, all of them or those whose criteria match predicate.
+   * Observed searches are refetched right away; the rest on their next use
+   */
+  invalidateSearches(predicate: (criteria: SearchPartsDTO) => boolean = () => true): void {
+    for (const [key, entry] of this.searches) {
+      if (predicate(JSON.parse(key) as SearchPartsDTO)) {
+        this.invalidate(entry, () => this.collectSearch(key));
+      }
+    }
+    this.notify();
+  }
+
+  invalidatePart(id: string): void {
+    const entry = this.parts.get(id);
+    if (entry) {
+      this.invalidate(entry, () => this.collectParts([id]));
+      this.notify();
+    }
+  }
+
+  invalidateAll(): void {
+    for (const [id, entry] of this.parts) {
+      this.invalidate(entry, () => this.collectParts([id]));
+    }
+    this.invalidateSearches();
+  }
+
+  /**
+   * Drops everything, e.g. on sign-out
+   */
+  clear(): void {
+    for (const entry of [...this.searches.values(), ...this.parts.values()]) {
+      clearTimeout(entry.gcTimer);
+    }
+    this.searches.clear();
+    this.parts.clear();
+    this.notify();
+  }
+
+  private isStale(entry: Entry<unknown> | undefined): boolean {
+    return !entry || Date.now() - entry.updatedAt >= this.staleTime;
+  }
+
+  private entry<T, R>(entries: Map<string, Entry<T, R>>, key: string): Entry<T, R> {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { updatedAt: 0, observers: 0 };
+      entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private snapshot<T>(entries: Map<string, Entry<T, unknown>>, key: string): EntrySnapshot<T> {
+    const entry = entries.get(key);
+    return { entry, data: entry?.data, updatedAt: entry?.updatedAt ?? 0 };
+  }
+
+  private keepAge<T>(entries: Map<string, Entry<T, unknown>>, key: string, { entry, updatedAt }: EntrySnapshot<T>): void {
+    if (entry && entries.get(key) === entry) {
+      entry.updatedAt = updatedAt;
+    }
+  }
+
+  // Puts the snapshotted entry back, with its observers, unless something other than
+  // the optimistic change has written to it since
+  private restore<T>(
+    entries: Map<string, Entry<T, unknown>>,
+    key: string,
+    { entry, data, updatedAt }: EntrySnapshot<T>,
+    changed: T | undefined,
+    collect: () => void
+  ): void {
+    const current = entries.get(key);
+    if (!entry || (current && current !== entry) || current?.data !== changed) {
+      return;
+    }
+    entry.data = data;
+    entry.updatedAt = updatedAt;
+    if (!current) {
+      // Dropped by the change, e.g. removePart
+      entries.set(key, entry);
+      this.scheduleGc(entry, collect);
+    }
+  }
+
+  private run<R>(entry: Entry<unknown, R>, collect: () => void): Promise<R> {
+    entry.promise ??= entry.refetch!().finally(() => {
+      entry.promise = undefined;
+      this.scheduleGc(entry, collect);
+    });
+    return entry.promise;
+  }
+
+  private writeSearch(entry: Entry<NormalizedSearch, unknown>, { parts, ...rest }: SearchPartsResponseDTO): void {
+    const previous = entry.data?.partIds ?? [];
+    const now = Date.now();
+    parts.forEach(part => this.storePart(part, now));
+    const partIds = parts.map(part => part.id);
+    entry.data = { ...rest, partIds };
+    entry.updatedAt = now;
+    // Parts this search no longer returns may have been the last reference to them
+    this.collectParts(previous.filter(id => !partIds.includes(id)));
+    this.notify();
+  }
+
+  private writePart(part: PartDTO): void {
+    this.storePart(part, Date.now());
+    this.notify();
+  }
+
+  private storePart(part: PartDTO, updatedAt: number): void {
+    const entry = this.entry(this.parts, part.id);
+    entry.data = part;
+    entry.updatedAt = updatedAt;
+  }
+
+  private observe(entry: Entry<unknown>, collect: () => void): () => void {
+    entry.observers++;
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = undefined;
+    let observing = true;
+    return () => {
+      if (observing) {
+        observing = false;
+        entry.observers--;
+        this.scheduleGc(entry, collect);
+      }
+    };
+  }
+
+  private invalidate(entry: Entry<unknown>, collect: () => void): void {
+    entry.updatedAt = 0;
+    if (entry.observers > 0 && entry.refetch) {
+      // A failed refetch leaves the stale data in place
+      this.run(entry, collect).catch(() => undefined);
+    }
+  }
+
+  private scheduleGc(entry: Entry<unknown>, collect: () => void): void {
+    if (entry.observers > 0 || entry.promise) {
+      return;
+    }
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = undefined;
+      collect();
+      this.notify();
+    }, this.gcTime);
+  }
+
+  private collectSearch(key: string): void {
+    const entry = this.searches.get(key);
+    if (!entry || entry.observers > 0 || entry.promise || entry.gcTimer) {
+      return;
+    }
+    this.searches.delete(key);
+    this.collectParts(entry.data?.partIds ?? []);
+  }
+
+  // Drops the given parts unless a search still lists them, or they are in use
+  // or waiting out their own gcTime
+  private collectParts(ids: string[]): void {
+    for (const id of ids) {
+      const entry = this.parts.get(id);
+      if (!entry || entry.observers > 0 || entry.promise || entry.gcTimer) {
+        continue;
+      }
+      const referenced = [...this.searches.values()].some(search => search.data?.partIds.includes(id));
+      if (!referenced) {
+        this.parts.delete(id);
+      }
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -31,9 +31,9 @@ export function PartCard({
     switch (part.status) {
       case 'ACTIVE':
         return 'bg-green-100 text-green-800';
-      case 'LOW_STOCK':
+      case 'INACTIVE':
         return 'bg-yellow-100 text-yellow-800';
-      case 'OUT_OF_STOCK':
+      case 'DISCONTINUED':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { PartsAPI } from '@partsy/sdk';
+import { PartsQueryCache, type PartsQueryCacheOptions } from '../cache/PartsQueryCache.js';
+
+export interface PartsQueryProviderProps extends PartsQueryCacheOptions {
+  client: PartsAPI;
+  // Pass a cache created outside React to keep data beyond the provider's lifetime;
+  // staleTime and gcTime then come from that cache
+  cache?: PartsQueryCache;
+  children: React.ReactNode;
+}
+
+export interface PartsQueryContextValue {
+  client: PartsAPI;
+  cache: PartsQueryCache;
+}
+
+const PartsQueryContext = React.createContext<PartsQueryContextValue | null>(null);
+
+/**
+ * Shares one PartsQueryCache between the hooks below it, so components asking
+ * for the same search or part reuse one request and one copy of the data
+ */
+export function PartsQueryProvider({
+  client,
+  cache,
+  staleTime,
+  gcTime,
+  children
+}: PartsQueryProviderProps): React.ReactElement {
+  const [ownCache] = React.useState(() => cache ?? new PartsQueryCache({ staleTime, gcTime }));
+  const activeCache = cache ?? ownCache;
+  const value = React.useMemo(() => ({ client, cache: activeCache }), [client, activeCache]);
+
+  return <PartsQueryContext.Provider value={value}>{children}</PartsQueryContext.Provider>;
+}
+
+/**
+ * The nearest provider's client and cache, or null outside a PartsQueryProvider
+ */
+export function usePartsQueryContext(): PartsQueryContextValue | null {
+  return React.useContext(PartsQueryContext);
+}
+
+/**
+ * For hooks that only work inside a provider
+ */
+export function requirePartsQueryContext(
+  context: PartsQueryContextValue | null,
+  hookName: string
+): PartsQueryContextValue {
+  if (!context) {
+    throw new Error(`${hookName} must be used inside a PartsQueryProvider`);
+  }
+  return context;
+}
+
+/**
+ * The nearest provider's cache, e.g. to invalidate queries after a change
+ */
+export function usePartsQueryCache(): PartsQueryCache {
+  return requirePartsQueryContext(usePartsQueryContext(), 'usePartsQueryCache').cache;
+}
@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import type { PartDTO } from '@partsy/sdk';
+import { requirePartsQueryContext, usePartsQueryContext } from '../components/PartsQueryProvider.js';
+
+export interface UsePartReturn {
+  // Available straight away when a search or another lookup already loaded the part
+  part: PartDTO | null;
+  // A request is in flight, possibly revalidating a part that is already shown
+  isFetching: boolean;
+  // A request is in flight and there is no part to show yet
+  isLoading: boolean;
+  error: string | null;
+  errorCause: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * One part by id, read from the PartsQueryProvider cache and fetched only when
+ * missing or stale. Pass null or undefined while there is no id to load
+ */
+export function usePart(id: string | null | undefined): UsePartReturn {
+  const { client, cache } = requirePartsQueryContext(usePartsQueryContext(), 'usePart');
+  const [isFetching, setIsFetching] = useState(false);
+  const [errorCause, setErrorCause] = useState<Error | null>(null);
+  // Requests for an id we have moved away from must not touch state
+  const currentId = useRef(id);
+
+  const subscribe = useCallback((listener: () => void) => cache.subscribe(listener), [cache]);
+  const getSnapshot = () => (id ? cache.getPart(id) : undefined) ?? null;
+  const part = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const load = useCallback(async (partId: string) => {
+    setIsFetching(true);
+    setErrorCause(null);
+    try {
+      await cache.fetchPart(partId, () => client.getPartById(partId));
+    } catch (err) {
+      if (currentId.current === partId) {
+        setErrorCause(err instanceof Error ? err : new Error('Loading the part failed'));
+      }
+    } finally {
+      if (currentId.current === partId) {
+        setIsFetching(false);
+      }
+    }
+  }, [cache, client]);
+
+  useEffect(() => {
+    currentId.current = id;
+    setErrorCause(null);
+    setIsFetching(false);
+    if (!id) {
+      return;
+    }
+    const release = cache.observePart(id);
+    if (cache.isPartStale(id)) {
+      void load(id);
+    }
+    return release;
+  }, [cache, id, load]);
+
+  const refetch = useCallback(async () => {
+    if (id) {
+      await load(id);
+    }
+  }, [id, load]);
+
+  return {
+    part,
+    isFetching,
+    isLoading: isFetching && part === null,
+    error: errorCause?.message ?? null,
+    errorCause,
+    refetch
+  };
+}
@@ -0,0 +1,142 @@
+import { useState, useCallback } from 'react';
+import type { CreatePartDTO, PartDTO, UpdatePartDTO } from '@partsy/sdk';
+import type { PartsQueryCache } from '../cache/PartsQueryCache.js';
+import { requirePartsQueryContext, usePartsQueryContext } from '../components/PartsQueryProvider.js';
+
+export interface UsePartMutationState {
+  // At least one call is still waiting for the server
+  isPending: boolean;
+  // From the last failed call; cleared by the next call or reset
+  error: string | null;
+  // The error behind `error`, e.g. a ConflictError or an APIError with field violations
+  errorCause: Error | null;
+  reset: () => void;
+}
+
+export interface UseCreatePartReturn extends UsePartMutationState {
+  // Resolves with the created part, or undefined when the call failed
+  createPart: (dto: CreatePartDTO) => Promise<PartDTO | undefined>;
+}
+
+export interface UseUpdatePartReturn extends UsePartMutationState {
+  // Resolves with the updated part, or undefined when the call failed
+  updatePart: (id: string, changes: UpdatePartDTO) => Promise<PartDTO | undefined>;
+}
+
+export interface UseDeletePartReturn extends UsePartMutationState {
+  // Resolves with whether the part was deleted
+  deletePart: (id: string) => Promise<boolean>;
+}
+
+interface Mutation<T> {
+  // Shows the expected outcome in the cache before the server confirms it; returns
+  // what undoes it, see PartsQueryCache.applyOptimistic
+  optimistic?: (cache: PartsQueryCache) => () => void;
+  request: () => Promise<T>;
+  // Stores the server's answer and invalidates the queries it affects
+  onSuccess: (cache: PartsQueryCache, result: T) => void;
+}
+
+// Shared by the mutation hooks: pending and error state, plus undoing the
+// optimistic change when the server refuses it
+function useMutation(hookName: string, fallbackMessage: string) {
+  const { client, cache } = requirePartsQueryContext(usePartsQueryContext(), hookName);
+  const [pending, setPending] = useState(0);
+  const [errorCause, setErrorCause] = useState<Error | null>(null);
+
+  const run = useCallback(async <T>({ optimistic, request, onSuccess }: Mutation<T>): Promise<T | undefined> => {
+    setPending(count => count + 1);
+    setErrorCause(null);
+    const rollback = optimistic?.(cache);
+    try {
+      const result = await request();
+      onSuccess(cache, result);
+      return result;
+    } catch (err) {
+      rollback?.();
+      setErrorCause(err instanceof Error ? err : new Error(fallbackMessage));
+      return undefined;
+    } finally {
+      setPending(count => count - 1);
+    }
+  }, [cache, fallbackMessage]);
+
+  const reset = useCallback(() => setErrorCause(null), []);
+
+  return {
+    client,
+    run,
+    state: {
+      isPending: pending > 0,
+      error: errorCause?.message ?? null,
+      errorCause,
+      reset
+    }
+  };
+}
+
+/**
+ * Creates a part. Where a new part belongs in a search depends on its filters and
+ * ordering, which only the server knows, so searches are refetched rather than
+ * updated optimistically
+ */
+export function useCreatePart(): UseCreatePartReturn {
+  const { client, run, state } = useMutation('useCreatePart', 'Creating the part failed');
+
+  const createPart = useCallback((dto: CreatePartDTO) => run({
+    request: () => client.createPart(dto),
+    onSuccess: (cache, part) => {
+      cache.setPart(part);
+      cache.invalidateSearches();
+    }
+  }), [client, run]);
+
+  return { createPart, ...state };
+}
+
+/**
+ * Updates a part, showing the changes in every cached search and lookup of it
+ * straight away
+ */
+export function useUpdatePart(): UseUpdatePartReturn {
+  const { client, run, state } = useMutation('useUpdatePart', 'Updating the part failed');
+
+  const updatePart = useCallback((id: string, changes: UpdatePartDTO) => run({
+    optimistic: cache => cache.applyOptimistic([id], () => {
+      const part = cache.getPart(id);
+      if (part) {
+        cache.setPart({ ...part, ...changes });
+      }
+    }),
+    request: () => client.updatePart(id, changes),
+    // New values may move the part into or out of filtered and sorted searches
+    onSuccess: (cache, part) => {
+      cache.setPart(part);
+      cache.invalidateSearches();
+    }
+  }), [client, run]);
+
+  return { updatePart, ...state };
+}
+
+/**
+ * Deletes a part, taking it out of cached searches straight away
+ */
+export function useDeletePart(): UseDeletePartReturn {
+  const { client, run, state } = useMutation('useDeletePart', 'Deleting the part failed');
+
+  const deletePart = useCallback(async (id: string) => {
+    const result = await run({
+      optimistic: cache => cache.applyOptimistic([id], () => cache.removePart(id)),
+      request: async () => {
+        await client.deletePart(id);
+        return true;
+      },
+      // Later pages move up to fill the gap
+      onSuccess: cache => cache.invalidateSearches()
+    });
+    return result ?? false;
+  }, [client, run]);
+
+  return { deletePart, ...state };
+}
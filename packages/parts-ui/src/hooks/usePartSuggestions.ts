@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import type { PartsAPI, PartSuggestion } from '@partsy/sdk';
+
+export interface UsePartSuggestionsProps {
+  // Keep the same instance across renders; a new one re-triggers the request
+  client: Pick<PartsAPI, 'suggestParts'>;
+  query: string;
+  limit?: number;
+  // Quiet period after the last keystroke before a request is sent
+  debounceMs?: number;
+  minLength?: number;
+}
+
+export interface UsePartSuggestionsReturn {
+  suggestions: PartSuggestion[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function usePartSuggestions({
+  client,
+  query,
+  limit,
+  debounceMs = 200,
+  minLength = 1
+}: UsePartSuggestionsProps): UsePartSuggestionsReturn {
+  const [suggestions, setSuggestions] = useState<PartSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < minLength) {
+      setSuggestions([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    // Each keystroke cancels the pending timer and any request still in flight,
+    // so a slow response for "br" can never overwrite the one for "bra"
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await client.suggestParts(trimmed, { limit, signal: controller.signal });
+        if (!controller.signal.aborted) {
+          setSuggestions(response.suggestions);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Suggestions failed');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [client, query, limit, debounceMs, minLength]);
+
+  return { suggestions, loading, error };
+}
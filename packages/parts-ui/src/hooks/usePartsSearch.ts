@@ -1,59 +1,211 @@
-import { useState, useCallback } from 'react';
-import type { SearchPartsDTO, SearchPartsResponseDTO, PartsAPIClient } from '@partsy/sdk';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AbortedError, abortable } from '@partsy/sdk';
+import type { CallOptions, SearchPartsDTO, SearchPartsResponseDTO, PartsAPI, PartSortOption, SearchFacets } from '@partsy/sdk';
+import { usePartsQueryContext } from '../components/PartsQueryProvider.js';
 
 export interface UsePartsSearchProps {
-  client: PartsAPIClient;
+  client: PartsAPI;
   initialCriteria?: SearchPartsDTO;
+  // Search on mount and whenever the criteria change, once they settle for debounceMs
+  autoSearch?: boolean;
+  debounceMs?: number;
 }
 
 export interface UsePartsSearchReturn {
+  // The last successful response; kept while a newer search runs or after one fails
   results: SearchPartsResponseDTO | null;
+  // Present when the last search was made with includeFacets
+  facets: SearchFacets | null;
+  // A search is in flight
+  isFetching: boolean;
+  // A search is in flight and there are no results to show yet
+  isLoading: boolean;
+  // Same as isFetching
   loading: boolean;
   error: string | null;
+  // The error behind `error`, to branch on its class, e.g. NotFoundError or RateLimitedError
+  errorCause: Error | null;
   searchCriteria: SearchPartsDTO;
   updateCriteria: (criteria: Partial<SearchPartsDTO>) => void;
-  search: () => Promise<void>;
+  setSort: (sort: PartSortOption[]) => void;
+  // Starting a search aborts the one in flight. An aborted search leaves results and error as they were.
+  // Inside a PartsQueryProvider, cached results show at once and fresh ones are not refetched
+  search: (options?: CallOptions) => Promise<void>;
+  // Repeats the last search, page and cursor included, even if its results are fresh
+  refetch: (options?: CallOptions) => Promise<void>;
+  // Move one page from the current results, by cursor when the server provides one
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  nextPage: (options?: CallOptions) => Promise<void>;
+  prevPage: (options?: CallOptions) => Promise<void>;
   clearResults: () => void;
 }
 
 export function usePartsSearch({ 
   client, 
-  initialCriteria = {} 
+  initialCriteria = {},
+  autoSearch = false,
+  debounceMs = 300
 }: UsePartsSearchProps): UsePartsSearchReturn {
-  const [results, setResults] = useState<SearchPartsResponseDTO | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const cache = usePartsQueryContext()?.cache;
+  // Coming back to a search the cache still holds shows its results on the first render
+  const [results, setResults] = useState<SearchPartsResponseDTO | null>(() => cache?.getSearch(initialCriteria) ?? null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [errorCause, setErrorCause] = useState<Error | null>(null);
   const [searchCriteria, setSearchCriteria] = useState<SearchPartsDTO>(initialCriteria);
+  // The search in flight; only its outcome may touch state
+  const inFlight = useRef<AbortController | null>(null);
+  const lastCriteria = useRef<SearchPartsDTO | null>(results ? initialCriteria : null);
+  // Keeps the cached results of the last search from being garbage collected
+  const stopObserving = useRef<(() => void) | null>(null);
 
   const updateCriteria = useCallback((criteria: Partial<SearchPartsDTO>) => {
     setSearchCriteria(prev => ({ ...prev, ...criteria }));
   }, []);
 
-  const search = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  // A new ordering invalidates the current page position
+  const setSort = useCallback((sort: PartSortOption[]) => {
+    setSearchCriteria(prev => ({ ...prev, sort, page: 1 }));
+  }, []);
+
+  // A newer search aborts this one, so a slow response can never overwrite a
+  // faster, later one. The caller's signal is forwarded to the same controller
+  const runSearch = useCallback(async (criteria: SearchPartsDTO, { signal }: CallOptions = {}, force = false) => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+    lastCriteria.current = criteria;
+
+    if (cache) {
+      stopObserving.current?.();
+      stopObserving.current = cache.observeSearch(criteria);
+      const cached = cache.getSearch(criteria);
+      if (cached) {
+        setResults(cached);
+        setErrorCause(null);
+        if (!force && !cache.isSearchStale(criteria)) {
+          inFlight.current = null;
+          setIsFetching(false);
+          return;
+        }
+      }
+    }
+
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    setIsFetching(true);
+    setErrorCause(null);
     try {
-      const searchResults = await client.searchParts(searchCriteria);
-      setResults(searchResults);
+      // Cached requests are shared with other components, so aborting only stops the wait
+      const searchResults = cache
+        ? await abortable(cache.fetchSearch(criteria, () => client.searchParts(criteria)), controller.signal)
+        : await client.searchParts(criteria, { signal: controller.signal });
+      if (inFlight.current === controller) {
+        setResults(searchResults);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed');
+      if (inFlight.current === controller && !(err instanceof AbortedError)) {
+        setErrorCause(err instanceof Error ? err : new Error('Search failed'));
+      }
     } finally {
-      setLoading(false);
+      signal?.removeEventListener('abort', onAbort);
+      if (inFlight.current === controller) {
+        inFlight.current = null;
+        setIsFetching(false);
+      }
+    }
+  }, [cache, client]);
+
+  const search = useCallback(
+    (options?: CallOptions) => runSearch(searchCriteria, options),
+    [runSearch, searchCriteria]
+  );
+
+  const refetch = useCallback(
+    (options?: CallOptions) => runSearch(lastCriteria.current ?? searchCriteria, options, true),
+    [runSearch, searchCriteria]
+  );
+
+  useEffect(() => {
+    if (!autoSearch) {
+      return;
+    }
+    const timer = setTimeout(() => void runSearch(searchCriteria), debounceMs);
+    return () => clearTimeout(timer);
+  }, [autoSearch, debounceMs, runSearch, searchCriteria]);
+
+  // Cache updates, e.g. a refetch after invalidation, show up in the current results
+  useEffect(() => {
+    if (!cache) {
+      return;
+    }
+    return cache.subscribe(() => {
+      const cached = lastCriteria.current && cache.getSearch(lastCriteria.current);
+      if (cached) {
+        setResults(cached);
+      }
+    });
+  }, [cache]);
+
+  // Nothing may update state after unmount
+  useEffect(() => () => {
+    inFlight.current?.abort();
+    stopObserving.current?.();
+  }, []);
+
+  const hasNextPage = results ? (results.nextCursor !== undefined || results.page < results.totalPages) : false;
+  const hasPrevPage = results ? (results.prevCursor !== undefined || results.page > 1) : false;
+
+  // Cursors are tied to the criteria of the results they came from, so they are
+  // sent with this one request rather than kept in searchCriteria
+  const nextPage = useCallback(async (options?: CallOptions) => {
+    if (!results || !hasNextPage) {
+      return;
+    }
+    const { nextCursor, page } = results;
+    await runSearch({ ...searchCriteria, page: page + 1, ...(nextCursor && { cursor: nextCursor }) }, options);
+  }, [results, hasNextPage, runSearch, searchCriteria]);
+
+  const prevPage = useCallback(async (options?: CallOptions) => {
+    if (!results || !hasPrevPage) {
+      return;
     }
-  }, [client, searchCriteria]);
+    const { prevCursor, page } = results;
+    await runSearch({ ...searchCriteria, page: Math.max(page - 1, 1), ...(prevCursor && { cursor: prevCursor }) }, options);
+  }, [results, hasPrevPage, runSearch, searchCriteria]);
 
   const clearResults = useCallback(() => {
+    inFlight.current?.abort();
+    inFlight.current = null;
+    lastCriteria.current = null;
+    stopObserving.current?.();
+    stopObserving.current = null;
+    setIsFetching(false);
     setResults(null);
-    setError(null);
+    setErrorCause(null);
   }, []);
 
   return {
     results,
-    loading,
-    error,
+    facets: results?.facets ?? null,
+    isFetching,
+    isLoading: isFetching && results === null,
+    loading: isFetching,
+    error: errorCause?.message ?? null,
+    errorCause,
     searchCriteria,
     updateCriteria,
+    setSort,
     search,
+    refetch,
+    hasNextPage,
+    hasPrevPage,
+    nextPage,
+    prevPage,
     clearResults
   };
 }
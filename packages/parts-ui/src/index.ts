@@ -1,12 +1,20 @@
 // Headless components with render props
 export { PartsSearch } from './components/PartsSearch.js';
 export { PartCard } from './components/PartCard.js';
+export { PartsQueryProvider, usePartsQueryCache } from './components/PartsQueryProvider.js';
 export type { PartsSearchProps, PartsSearchRenderProps } from './components/PartsSearch.js';
 export type { PartCardProps, PartCardRenderProps } from './components/PartCard.js';
+export type { PartsQueryProviderProps } from './components/PartsQueryProvider.js';
+
+// Client-side query cache shared through PartsQueryProvider
+export { PartsQueryCache, toSearchKey, type PartsQueryCacheOptions } from './cache/PartsQueryCache.js';
 
 // Re-export types from SDK (canonical source)
 export type { PartDTO } from '@partsy/sdk';
 
 // Hooks for state management
 export * from './hooks/usePartsSearch.js';
-export * from './hooks/usePartSelection.js';
\ No newline at end of file
+export * from './hooks/usePart.js';
+export * from './hooks/usePartMutations.js';
+export * from './hooks/usePartSelection.js';
+export * from './hooks/usePartSuggestions.js';
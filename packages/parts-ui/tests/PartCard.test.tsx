@@ -41,8 +41,8 @@ describe('PartCard', () => {
 
   it('should provide correct status color for different statuses', () => {
     const activePartProps = { part: mockPart };
-    const lowStockPart = { ...mockPart, status: 'LOW_STOCK' as const };
-    const outOfStockPart = { ...mockPart, status: 'OUT_OF_STOCK' as const };
+    const inactivePart = { ...mockPart, status: 'INACTIVE' as const };
+    const discontinuedPart = { ...mockPart, status: 'DISCONTINUED' as const };
 
     render(
       <div>
@@ -53,17 +53,17 @@ describe('PartCard', () => {
             </span>
           )}
         </PartCard>
-        <PartCard part={lowStockPart}>
+        <PartCard part={inactivePart}>
           {({ getStatusColor }) => (
-            <span data-testid="low-stock-status" className={getStatusColor()}>
-              LOW_STOCK
+            <span data-testid="inactive-status" className={getStatusColor()}>
+              INACTIVE
             </span>
           )}
         </PartCard>
-        <PartCard part={outOfStockPart}>
+        <PartCard part={discontinuedPart}>
           {({ getStatusColor }) => (
-            <span data-testid="out-of-stock-status" className={getStatusColor()}>
-              OUT_OF_STOCK
+            <span data-testid="discontinued-status" className={getStatusColor()}>
+              DISCONTINUED
             </span>
           )}
         </PartCard>
@@ -71,8 +71,8 @@ describe('PartCard', () => {
     );
 
     expect(screen.getByTestId('active-status')).toHaveClass('bg-green-100', 'text-green-800');
-    expect(screen.getByTestId('low-stock-status')).toHaveClass('bg-yellow-100', 'text-yellow-800');
-    expect(screen.getByTestId('out-of-stock-status')).toHaveClass('bg-red-100', 'text-red-800');
+    expect(screen.getByTestId('inactive-status')).toHaveClass('bg-yellow-100', 'text-yellow-800');
+    expect(screen.getByTestId('discontinued-status')).toHaveClass('bg-red-100', 'text-red-800');
   });
 
   it('should handle part selection', () => {
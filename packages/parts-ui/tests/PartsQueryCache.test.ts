@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PartsQueryCache, toSearchKey } from '../src/cache/PartsQueryCache.js';
+import type { PartDTO, SearchPartsResponseDTO } from '@partsy/sdk';
+
+function part(id: string, price = 10): PartDTO {
+  return {
+    id,
+    partNumber: `P-${id}`,
+    name: `Part ${id}`,
+    price,
+    quantity: 1,
+    status: 'ACTIVE',
+    category: 'Brakes',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
+  };
+}
+
+function response(parts: PartDTO[]): SearchPartsResponseDTO {
+  return { parts, total: parts.length, page: 1, limit: 10, totalPages: 1 };
+}
+
+describe('PartsQueryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should key searches by criteria regardless of property order', () => {
+    expect(toSearchKey({ name: 'brake', limit: 10, page: undefined })).toBe(toSearchKey({ limit: 10, name: 'brake' }));
+    expect(toSearchKey({ name: 'brake' })).not.toBe(toSearchKey({ name: 'brakes' }));
+  });
+
+  it('should store each part once and share it between searches and lookups', () => {
+    const cache = new PartsQueryCache();
+    cache.setSearch({ category: 'Brakes' }, response([part('p1'), part('p2')]));
+    cache.setSearch({ name: 'part' }, response([part('p2')]));
+
+    cache.setPart(part('p2', 99));
+
+    expect(cache.getPart('p2')!.price).toBe(99);
+    expect(cache.getSearch({ category: 'Brakes' })!.parts.map(p => p.price)).toEqual([10, 99]);
+    expect(cache.getSearch({ name: 'part' })!.parts[0]!.price).toBe(99);
+    expect(cache.isPartStale('p1')).toBe(false);
+  });
+
+  it('should share one request between concurrent fetches of a search', async () => {
+    const cache = new PartsQueryCache();
+    const fetcher = vi.fn().mockResolvedValue(response([part('p1')]));
+
+    const [a, b] = await Promise.all([
+      cache.fetchSearch({ name: 'brake' }, fetcher),
+      cache.fetchSearch({ name: 'brake' }, fetcher)
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(a).toEqual(b);
+  });
+
+  it('should refetch observed searches on invalidation and only mark the others stale', async () => {
+    const cache = new PartsQueryCache();
+    const observed = vi.fn().mockResolvedValue(response([part('p1')]));
+    const unobserved = vi.fn().mockResolvedValue(response([part('p2')]));
+    await cache.fetchSearch({ name: 'p1' }, observed);
+    await cache.fetchSearch({ name: 'p2' }, unobserved);
+    cache.observeSearch({ name: 'p1' });
+
+    cache.invalidateSearches(criteria => criteria.name?.startsWith('p') ?? false);
+    await vi.waitFor(() => expect(observed).toHaveBeenCalledTimes(2));
+
+    expect(unobserved).toHaveBeenCalledTimes(1);
+    expect(cache.isSearchStale({ name: 'p2' })).toBe(true);
+    expect(cache.getSearch({ name: 'p2' })).toBeDefined();
+  });
+
+  it('should drop unobserved searches and their parts after gcTime', () => {
+    vi.useFakeTimers();
+    const cache = new PartsQueryCache({ gcTime: 1000 });
+    const stopObserving = cache.observeSearch({ name: 'brake' });
+    cache.setSearch({ name: 'brake' }, response([part('p1'), part('p2')]));
+    cache.observePart('p1');
+
+    stopObserving();
+    vi.advanceTimersByTime(500);
+    cache.setSearch({ name: 'other' }, response([part('p2')]));
+    vi.advanceTimersByTime(499);
+    expect(cache.getSearch({ name: 'brake' })).toBeDefined();
+    vi.advanceTimersByTime(1);
+
+    expect(cache.getSearch({ name: 'brake' })).toBeUndefined();
+    // Still observed by a lookup, and still listed by another search
+    expect(cache.getPart('p1')).toBeDefined();
+    expect(cache.getPart('p2')).toBeDefined();
+
+    vi.advanceTimersByTime(500);
+    expect(cache.getSearch({ name: 'other' })).toBeUndefined();
+    expect(cache.getPart('p2')).toBeUndefined();
+    expect(cache.getPart('p1')).toBeDefined();
+  });
+
+  it('should keep paging counts in step when a part is removed', () => {
+    const cache = new PartsQueryCache();
+    cache.setSearch({ limit: 2 }, { parts: [part('p1'), part('p2')], total: 3, page: 1, limit: 2, totalPages: 2 });
+
+    cache.removePart('p1');
+
+    expect(cache.getSearch({ limit: 2 })).toMatchObject({ total: 2, totalPages: 1 });
+  });
+
+  it('should only roll back what an optimistic change touched and nothing has rewritten since', () => {
+    const cache = new PartsQueryCache();
+    cache.setSearch({ category: 'Brakes' }, response([part('p1'), part('p2')]));
+    cache.setSearch({ name: 'part' }, response([part('p1')]));
+
+    const rollbackDelete = cache.applyOptimistic(['p1'], () => cache.removePart('p1'));
+    const rollbackUpdate = cache.applyOptimistic(['p2'], () => cache.setPart(part('p2', 15)));
+    // A refetch lands while the delete is pending
+    cache.setSearch({ name: 'part' }, response([part('p3')]));
+    rollbackDelete();
+
+    expect(cache.getSearch({ category: 'Brakes' })!.parts.map(p => [p.id, p.price])).toEqual([['p1', 10], ['p2', 15]]);
+    expect(cache.getSearch({ name: 'part' })!.parts.map(p => p.id)).toEqual(['p3']);
+
+    rollbackUpdate();
+    expect(cache.getPart('p2')!.price).toBe(10);
+  });
+
+  it('should not count optimistic data as fresh', () => {
+    vi.useFakeTimers();
+    const cache = new PartsQueryCache({ staleTime: 1000 });
+    cache.setPart(part('p1'));
+    vi.advanceTimersByTime(1000);
+
+    const rollback = cache.applyOptimistic(['p1'], () => cache.setPart(part('p1', 15)));
+    expect(cache.isPartStale('p1')).toBe(true);
+    rollback();
+
+    expect(cache.getPart('p1')!.price).toBe(10);
+    expect(cache.isPartStale('p1')).toBe(true);
+  });
+
+  it('should keep a removed part observed through a rollback', () => {
+    const cache = new PartsQueryCache();
+    cache.setSearch({ category: 'Brakes' }, response([part('p1')]));
+    cache.observePart('p1');
+
+    const rollback = cache.applyOptimistic(['p1'], () => cache.removePart('p1'));
+    expect(cache.getPart('p1')).toBeUndefined();
+    rollback();
+    // No search lists p1 any more, but it is still observed
+    cache.setSearch({ category: 'Brakes' }, response([]));
+
+    expect(cache.getPart('p1')).toEqual(part('p1'));
+  });
+
+  it('should resolve a fetch with its response even if the cache is cleared meanwhile', async () => {
+    const cache = new PartsQueryCache();
+    let resolve!: (value: SearchPartsResponseDTO) => void;
+    const pending = cache.fetchSearch({ name: 'brake' }, () => new Promise(r => { resolve = r; }));
+
+    cache.clear();
+    resolve(response([part('p1')]));
+
+    expect((await pending).parts.map(p => p.id)).toEqual(['p1']);
+  });
+});
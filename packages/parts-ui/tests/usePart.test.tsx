@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import React from 'react';
+import { PartsQueryProvider } from '../src/components/PartsQueryProvider.js';
+import { PartsQueryCache } from '../src/cache/PartsQueryCache.js';
+import { usePart } from '../src/hooks/usePart.js';
+import { usePartsSearch } from '../src/hooks/usePartsSearch.js';
+import type { PartDTO, PartsAPI } from '@partsy/sdk';
+
+const brakePad: PartDTO = {
+  id: 'p1',
+  partNumber: 'BRK-002',
+  name: 'Brake Pad',
+  price: 89.99,
+  quantity: 8,
+  status: 'ACTIVE',
+  category: 'Brakes',
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-02')
+};
+
+function createClient() {
+  return {
+    searchParts: vi.fn().mockResolvedValue({ parts: [brakePad], total: 1, page: 1, limit: 10, totalPages: 1 }),
+    getPartById: vi.fn().mockResolvedValue(brakePad)
+  };
+}
+
+function wrapperFor(client: ReturnType<typeof createClient>, cache = new PartsQueryCache()) {
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <PartsQueryProvider client={client as unknown as PartsAPI} cache={cache}>
+        {children}
+      </PartsQueryProvider>
+    );
+  };
+}
+
+describe('usePart', () => {
+  it('should fetch a part that is not cached yet', async () => {
+    const client = createClient();
+    const { result } = renderHook(() => usePart('p1'), { wrapper: wrapperFor(client) });
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.part).toEqual(brakePad));
+    expect(client.getPartById).toHaveBeenCalledWith('p1');
+    expect(result.current.isFetching).toBe(false);
+  });
+
+  it('should render a part loaded by a search without fetching it', async () => {
+    const client = createClient();
+    const wrapper = wrapperFor(client);
+    const { result } = renderHook(() => ({
+      search: usePartsSearch({ client: client as unknown as PartsAPI }),
+      part: usePart(null)
+    }), { wrapper });
+
+    await act(async () => {
+      await result.current.search.search();
+    });
+    const { result: lookup } = renderHook(() => usePart('p1'), { wrapper });
+
+    expect(lookup.current.part).toEqual(brakePad);
+    expect(lookup.current.isFetching).toBe(false);
+    expect(client.getPartById).not.toHaveBeenCalled();
+  });
+
+  it('should serve a remounted search from the cache', async () => {
+    const client = createClient();
+    const wrapper = wrapperFor(client);
+    const options = { client: client as unknown as PartsAPI, initialCriteria: { name: 'brake' } };
+    const first = renderHook(() => usePartsSearch(options), { wrapper });
+    await act(async () => {
+      await first.result.current.search();
+    });
+    first.unmount();
+
+    const { result } = renderHook(() => usePartsSearch(options), { wrapper });
+    expect(result.current.results?.parts).toEqual([brakePad]);
+
+    await act(async () => {
+      await result.current.search();
+    });
+    expect(client.searchParts).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw outside a PartsQueryProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => renderHook(() => usePart('p1'))).toThrow('usePart must be used inside a PartsQueryProvider');
+  });
+});
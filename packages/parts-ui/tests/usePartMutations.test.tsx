@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { ConflictError, type PartDTO, type PartsAPI, type SearchPartsResponseDTO } from '@partsy/sdk';
+import { PartsQueryProvider } from '../src/components/PartsQueryProvider.js';
+import { PartsQueryCache } from '../src/cache/PartsQueryCache.js';
+import { usePartsSearch } from '../src/hooks/usePartsSearch.js';
+import { useCreatePart, useDeletePart, useUpdatePart } from '../src/hooks/usePartMutations.js';
+
+function part(id: string, price: number): PartDTO {
+  return {
+    id,
+    partNumber: `BRK-${id}`,
+    name: `Brake Pad ${id}`,
+    price,
+    quantity: 8,
+    status: 'ACTIVE',
+    category: 'Brakes',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02')
+  };
+}
+
+const searchResponse: SearchPartsResponseDTO = {
+  parts: [part('p1', 10), part('p2', 20)],
+  total: 2,
+  page: 1,
+  limit: 10,
+  totalPages: 1
+};
+
+// Renders the mutation hooks next to a search that has already loaded
+async function renderWithSearch(client: Partial<Record<keyof PartsAPI, unknown>>) {
+  const api = { searchParts: vi.fn().mockResolvedValue(searchResponse), ...client } as unknown as PartsAPI;
+  const cache = new PartsQueryCache();
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <PartsQueryProvider client={api} cache={cache}>{children}</PartsQueryProvider>
+  );
+  const view = renderHook(() => ({
+    search: usePartsSearch({ client: api, initialCriteria: { category: 'Brakes' } }),
+    create: useCreatePart(),
+    update: useUpdatePart(),
+    remove: useDeletePart()
+  }), { wrapper });
+  await act(async () => {
+    await view.result.current.search.search();
+  });
+  return { ...view, api };
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('part mutation hooks', () => {
+  it('should show an update in cached search results before the server answers', async () => {
+    const response = deferred<PartDTO>();
+    const { result, api } = await renderWithSearch({ updatePart: vi.fn(() => response.promise) });
+    vi.mocked(api.searchParts).mockResolvedValue({ ...searchResponse, parts: [part('p1', 12.5), part('p2', 20)] });
+
+    let updating: Promise<PartDTO | undefined>;
+    act(() => {
+      updating = result.current.update.updatePart('p1', { price: 12 });
+    });
+
+    expect(result.current.search.results?.parts[0]!.price).toBe(12);
+    expect(result.current.update.isPending).toBe(true);
+
+    await act(async () => {
+      response.resolve(part('p1', 12.5));
+      await updating;
+    });
+
+    expect(result.current.search.results?.parts[0]!.price).toBe(12.5);
+    expect(result.current.update.isPending).toBe(false);
+    // The search on screen is refetched because the change may affect its filters
+    await act(async () => {
+      await vi.waitFor(() => expect(api.searchParts).toHaveBeenCalledTimes(2));
+    });
+    expect(result.current.search.results?.parts[0]!.price).toBe(12.5);
+  });
+
+  it('should roll back an optimistic delete when the server refuses it', async () => {
+    const response = deferred<void>();
+    const { result } = await renderWithSearch({ deletePart: vi.fn(() => response.promise) });
+
+    let deleting: Promise<boolean>;
+    act(() => {
+      deleting = result.current.remove.deletePart('p1');
+    });
+    expect(result.current.search.results?.parts.map(p => p.id)).toEqual(['p2']);
+    expect(result.current.search.results?.total).toBe(1);
+
+    await act(async () => {
+      response.reject(new Error('Delete failed'));
+      expect(await deleting).toBe(false);
+    });
+
+    expect(result.current.search.results?.parts.map(p => p.id)).toEqual(['p1', 'p2']);
+    expect(result.current.search.results?.total).toBe(2);
+    expect(result.current.remove.error).toBe('Delete failed');
+  });
+
+  it('should expose the typed error of a failed create and leave the cache alone', async () => {
+    const conflict = new ConflictError('Part number already exists', 409, 'Conflict', { code: 'DUPLICATE_PART_NUMBER' });
+    const { result, api } = await renderWithSearch({ createPart: vi.fn().mockRejectedValue(conflict) });
+
+    let created: PartDTO | undefined;
+    await act(async () => {
+      created = await result.current.create.createPart({ partNumber: 'BRK-p1', name: 'Copy', price: 1, quantity: 1, category: 'Brakes' });
+    });
+
+    expect(created).toBeUndefined();
+    expect(result.current.create.errorCause).toBe(conflict);
+    expect(result.current.search.results).toEqual(searchResponse);
+    expect(api.searchParts).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.create.reset();
+    });
+    expect(result.current.create.error).toBeNull();
+  });
+});
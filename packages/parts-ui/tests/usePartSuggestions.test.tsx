@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePartSuggestions } from '../src/hooks/usePartSuggestions.js';
+import type { PartSuggestion, SuggestPartsOptions } from '@partsy/sdk';
+
+const brakeSuggestion: PartSuggestion = {
+  text: 'Brake Disc Set',
+  field: 'name',
+  partId: '2',
+  highlights: [{ start: 0, end: 2 }]
+};
+
+describe('usePartSuggestions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should debounce keystrokes into a single request', async () => {
+    const suggestParts = vi.fn().mockResolvedValue({ suggestions: [brakeSuggestion] });
+    const client = { suggestParts };
+    const { result, rerender } = renderHook(
+      ({ query }) => usePartSuggestions({ client, query, limit: 5 }),
+      { initialProps: { query: 'b' } }
+    );
+
+    rerender({ query: 'br' });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    expect(suggestParts).toHaveBeenCalledTimes(1);
+    expect(suggestParts).toHaveBeenCalledWith('br', expect.objectContaining({ limit: 5 }));
+    expect(result.current.suggestions).toEqual([brakeSuggestion]);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should abort a stale request and ignore its response', async () => {
+    const resolvers: ((value: { suggestions: PartSuggestion[] }) => void)[] = [];
+    const signals: AbortSignal[] = [];
+    const suggestParts = vi.fn((_query: string, options?: SuggestPartsOptions) => {
+      signals.push(options!.signal!);
+      return new Promise<{ suggestions: PartSuggestion[] }>(resolve => resolvers.push(resolve));
+    });
+    const client = { suggestParts };
+    const { result, rerender } = renderHook(
+      ({ query }) => usePartSuggestions({ client, query }),
+      { initialProps: { query: 'br' } }
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+    rerender({ query: 'brake' });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    expect(signals[0]!.aborted).toBe(true);
+
+    await act(async () => {
+      resolvers[1]!({ suggestions: [brakeSuggestion] });
+      resolvers[0]!({ suggestions: [{ ...brakeSuggestion, text: 'stale' }] });
+    });
+
+    expect(result.current.suggestions).toEqual([brakeSuggestion]);
+  });
+
+  it('should clear suggestions below the minimum length without a request', async () => {
+    const suggestParts = vi.fn().mockResolvedValue({ suggestions: [brakeSuggestion] });
+    const client = { suggestParts };
+    const { result, rerender } = renderHook(
+      ({ query }) => usePartSuggestions({ client, query, minLength: 2 }),
+      { initialProps: { query: 'br' } }
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+    rerender({ query: 'b' });
+
+    expect(result.current.suggestions).toEqual([]);
+    expect(suggestParts).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose request errors', async () => {
+    const suggestParts = vi.fn().mockRejectedValue(new Error('Service unavailable'));
+    const client = { suggestParts };
+    const { result } = renderHook(() => usePartSuggestions({ client, query: 'br' }));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    expect(result.current.error).toBe('Service unavailable');
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePartsSearch } from '../src/hooks/usePartsSearch.js';
+import { AbortedError, ServerError, type CallOptions, type PartsAPI, type SearchPartsDTO, type SearchPartsResponseDTO } from '@partsy/sdk';
+
+const emptyResponse: SearchPartsResponseDTO = {
+  parts: [],
+  total: 0,
+  page: 1,
+  limit: 10,
+  totalPages: 0
+};
+
+// Client whose searches stay pending until resolved by hand, and reject with
+// AbortedError when aborted like the SDK clients do
+function createDeferredClient() {
+  const pending: { dto: SearchPartsDTO; signal: AbortSignal; resolve: (response: SearchPartsResponseDTO) => void }[] = [];
+  const searchParts = vi.fn((dto: SearchPartsDTO, { signal }: CallOptions = {}) =>
+    new Promise<SearchPartsResponseDTO>((resolve, reject) => {
+      signal!.addEventListener('abort', () => reject(new AbortedError(undefined, signal!.reason)));
+      pending.push({ dto, signal: signal!, resolve });
+    })
+  );
+  return { client: { searchParts } as unknown as PartsAPI, searchParts, pending };
+}
+
+function createClient(): PartsAPI {
+  return {
+    searchParts: vi.fn().mockResolvedValue(emptyResponse)
+  } as unknown as PartsAPI;
+}
+
+describe('usePartsSearch', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should search with the current criteria', async () => {
+    const client = createClient();
+    const { result } = renderHook(() =>
+      usePartsSearch({ client, initialCriteria: { name: 'brake', limit: 10 } })
+    );
+
+    await act(async () => {
+      await result.current.search();
+    });
+
+    expect(client.searchParts).toHaveBeenCalledWith({ name: 'brake', limit: 10 }, { signal: expect.any(AbortSignal) });
+    expect(result.current.results).toEqual(emptyResponse);
+  });
+
+  it('should pass sort options through and reset to the first page', async () => {
+    const client = createClient();
+    const { result } = renderHook(() =>
+      usePartsSearch({ client, initialCriteria: { page: 3 } })
+    );
+
+    act(() => {
+      result.current.setSort([{ field: 'price', direction: 'desc' }, { field: 'name' }]);
+    });
+
+    await act(async () => {
+      await result.current.search();
+    });
+
+    expect(client.searchParts).toHaveBeenCalledWith({
+      page: 1,
+      sort: [{ field: 'price', direction: 'desc' }, { field: 'name' }]
+    }, expect.anything());
+  });
+
+  it('should expose facets from the last response', async () => {
+    const facets = {
+      categories: [{ value: 'Brakes', count: 2 }],
+      statuses: [{ value: 'ACTIVE', count: 2 }],
+      priceBuckets: [{ max: 100, count: 1 }, { min: 100, count: 1 }]
+    };
+    const client = {
+      searchParts: vi.fn().mockResolvedValue({ ...emptyResponse, facets })
+    } as unknown as PartsAPI;
+    const { result } = renderHook(() =>
+      usePartsSearch({ client, initialCriteria: { includeFacets: true } })
+    );
+
+    expect(result.current.facets).toBeNull();
+
+    await act(async () => {
+      await result.current.search();
+    });
+
+    expect(result.current.facets).toEqual(facets);
+  });
+
+  it('should page with the cursors from the last response', async () => {
+    const searchParts = vi.fn()
+      .mockResolvedValueOnce({ ...emptyResponse, total: 20, totalPages: 2, nextCursor: 'c2' })
+      .mockResolvedValueOnce({ ...emptyResponse, total: 20, page: 2, totalPages: 2, prevCursor: 'c1' })
+      .mockResolvedValueOnce({ ...emptyResponse, total: 20, totalPages: 2, nextCursor: 'c2' });
+    const client = { searchParts } as unknown as PartsAPI;
+    const { result } = renderHook(() =>
+      usePartsSearch({ client, initialCriteria: { sort: [{ field: 'price' }], limit: 10 } })
+    );
+
+    await act(async () => {
+      await result.current.search();
+    });
+    expect(result.current.hasPrevPage).toBe(false);
+
+    await act(async () => {
+      await result.current.nextPage();
+    });
+    expect(result.current.hasNextPage).toBe(false);
+
+    await act(async () => {
+      await result.current.prevPage();
+    });
+
+    expect(searchParts.mock.calls.map(([dto]) => [dto.page, dto.cursor])).toEqual([
+      [undefined, undefined],
+      [2, 'c2'],
+      [1, 'c1']
+    ]);
+    expect(result.current.searchCriteria).toEqual({ sort: [{ field: 'price' }], limit: 10 });
+  });
+
+  it('should expose the error message and the typed error when the search fails', async () => {
+    const failure = new ServerError('Service unavailable', 503);
+    const client = {
+      searchParts: vi.fn().mockRejectedValue(failure)
+    } as unknown as PartsAPI;
+    const { result } = renderHook(() => usePartsSearch({ client }));
+
+    await act(async () => {
+      await result.current.search();
+    });
+
+    expect(result.current.error).toBe('Service unavailable');
+    expect(result.current.errorCause).toBe(failure);
+    expect(result.current.errorCause).toBeInstanceOf(ServerError);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should abort the search in flight and ignore its response', async () => {
+    const { client, pending } = createDeferredClient();
+    const { result } = renderHook(() => usePartsSearch({ client }));
+
+    act(() => {
+      void result.current.search();
+    });
+    act(() => {
+      result.current.updateCriteria({ name: 'brake' });
+    });
+    act(() => {
+      void result.current.search();
+    });
+
+    expect(pending[0]!.signal.aborted).toBe(true);
+    await act(async () => {
+      pending[1]!.resolve({ ...emptyResponse, total: 2 });
+      pending[0]!.resolve({ ...emptyResponse, total: 99 });
+    });
+
+    expect(result.current.results?.total).toBe(2);
+    expect(result.current.errorCause).toBeNull();
+    expect(result.current.isFetching).toBe(false);
+  });
+
+  it('should keep the last results while refetching', async () => {
+    const { client, pending } = createDeferredClient();
+    const { result } = renderHook(() => usePartsSearch({ client, initialCriteria: { name: 'brake' } }));
+
+    act(() => {
+      void result.current.search();
+    });
+    expect(result.current).toMatchObject({ isLoading: true, isFetching: true });
+    await act(async () => {
+      pending[0]!.resolve({ ...emptyResponse, total: 1 });
+    });
+
+    act(() => {
+      void result.current.refetch();
+    });
+
+    expect(pending[1]!.dto).toEqual({ name: 'brake' });
+    expect(result.current).toMatchObject({ isLoading: false, isFetching: true, results: { total: 1 } });
+  });
+
+  it('should leave results and error alone when the caller aborts', async () => {
+    const { client, pending } = createDeferredClient();
+    const { result } = renderHook(() => usePartsSearch({ client }));
+    const controller = new AbortController();
+
+    let searching: Promise<void>;
+    act(() => {
+      searching = result.current.search({ signal: controller.signal });
+    });
+    await act(async () => {
+      controller.abort();
+      await searching;
+    });
+
+    expect(pending[0]!.signal.aborted).toBe(true);
+    expect(result.current).toMatchObject({ results: null, errorCause: null, isFetching: false });
+  });
+
+  it('should debounce criteria changes into one search in auto-search mode', async () => {
+    vi.useFakeTimers();
+    const client = createClient();
+    const { result } = renderHook(() =>
+      usePartsSearch({ client, autoSearch: true, debounceMs: 200 })
+    );
+
+    act(() => {
+      result.current.updateCriteria({ name: 'b' });
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    act(() => {
+      result.current.updateCriteria({ name: 'br' });
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    expect(client.searchParts).toHaveBeenCalledTimes(1);
+    expect(client.searchParts).toHaveBeenCalledWith({ name: 'br' }, expect.anything());
+    expect(result.current.results).toEqual(emptyResponse);
+  });
+});
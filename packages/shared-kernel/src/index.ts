@@ -70,20 +70,35 @@ export class ValidationError extends DomainError {
   }
 }
 
+// What kind of failure a Result holds, so callers can react to it without
+// matching on the message
+export const ErrorCode = {
+  // The input breaks a rule; the caller can fix it
+  VALIDATION: 'VALIDATION',
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  // Anything else, e.g. a database outage or a bug
+  INTERNAL: 'INTERNAL'
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
 // Result pattern for error handling
 export class Result<T> {
   private constructor(
     private readonly success: boolean,
     private readonly error?: string,
-    private readonly value?: T
+    private readonly value?: T,
+    private readonly errorCode?: ErrorCode
   ) {}
 
   public static ok<U>(value?: U): Result<U> {
     return new Result<U>(true, undefined, value);
   }
 
-  public static fail<U>(error: string): Result<U> {
-    return new Result<U>(false, error);
+  // Failures nobody classified count as internal, never as the caller's fault
+  public static fail<U>(error: string, code: ErrorCode = ErrorCode.INTERNAL): Result<U> {
+    return new Result<U>(false, error, undefined, code);
   }
 
   public isSuccess(): boolean {
@@ -107,6 +122,13 @@ export class Result<T> {
     }
     return this.error!;
   }
+
+  public getErrorCode(): ErrorCode {
+    if (this.success) {
+      throw new Error('Cannot get error code from successful result');
+    }
+    return this.errorCode!;
+  }
 }
 
 // Common types
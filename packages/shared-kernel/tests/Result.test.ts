@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Result } from '../src/index.js';
+import { ErrorCode, Result } from '../src/index.js';
 
 describe('Result', () => {
   describe('ok', () => {
@@ -21,6 +21,11 @@ describe('Result', () => {
       expect(result.getError()).toBe('error message');
     });
 
+    it('should carry the given error code, defaulting to internal', () => {
+      expect(Result.fail('Part not found', ErrorCode.NOT_FOUND).getErrorCode()).toBe(ErrorCode.NOT_FOUND);
+      expect(Result.fail('connection refused').getErrorCode()).toBe(ErrorCode.INTERNAL);
+    });
+
     it('should throw when trying to get value from failed result', () => {
       const result = Result.fail('error message');
       